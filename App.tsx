@@ -1,34 +1,32 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Mic, MicOff, Settings, AlertCircle, MessageSquare, Keyboard, ListVideo, Menu, X, Terminal } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Mic, MicOff, Settings, AlertCircle, MessageSquare, Keyboard, ListVideo, Menu, X, Terminal, PhoneOff, Camera, Monitor, ArrowUp, Circle, Download, FileJson, History, Pause, Play, GraduationCap, Handshake } from 'lucide-react';
 import Visualizer from './components/Visualizer';
 import SettingsModal from './components/SettingsModal';
 import SmartTools from './components/SmartTools';
+import SmartContentRenderer from './components/SmartContentRenderer';
+import VideoPreview from './components/VideoPreview';
+import SessionsPanel from './components/SessionsPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import PracticePanel from './components/PracticePanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import DebriefCard from './components/DebriefCard';
 import { useLiveGemini } from './hooks/useLiveGemini';
-import { ModeConfig, ConnectionState, TranscriptMessage } from './types';
-
-const MODES: ModeConfig[] = [
-  {
-    id: 'assistant',
-    name: 'Velocity Assistant',
-    description: 'Ultra-fast general purpose assistant for hands-free operation.',
-    systemInstruction: 'You are Velocity, a super-fast, helpful voice assistant. You respond instantly and concisely. Your goal is to be efficient and precise.',
-    voiceName: 'Kore'
-  },
-  {
-    id: 'tutor',
-    name: 'Language Tutor',
-    description: 'Instant pronunciation feedback and conversation practice.',
-    systemInstruction: 'You are a strict but helpful language tutor. Correct pronunciation errors immediately. If the user is speaking, listen carefully. If they make a mistake, stop them gently and correct it before moving on. Speak clearly.',
-    voiceName: 'Puck'
-  },
-  {
-    id: 'negotiator',
-    name: 'Hard Negotiator',
-    description: 'Simulate high-pressure negotiation scenarios in real-time.',
-    systemInstruction: 'You are a tough negotiator in a business deal. You are hard to please, interrupt if the user is weak, and demand value. Do not give in easily.',
-    voiceName: 'Fenrir'
-  }
-];
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { phrasePrompt, usePractice } from './hooks/usePractice';
+import { useNegotiation } from './hooks/useNegotiation';
+import { useCaptionTranslations } from './hooks/useCaptionTranslations';
+import { createFakeLiveTransport, DEMO_LIVE_SCRIPT } from './utils/fakeLiveTransport';
+import { ModeConfig, ConnectionState, TranscriptMessage, CaptureMode, VideoSource, LiveSessionRecord } from './types';
+import { downloadTextFile, sessionFileName, sessionToJson, sessionToMarkdown, sessionToSrt } from './utils/sessionExport';
+import { exportLiveMetrics } from './utils/liveMetrics';
+import { isMemoryEnabled, setMemoryEnabled as storeMemoryEnabled } from './utils/memory';
+import { BUILT_IN_MODES, loadCustomModes, saveCustomModes } from './utils/personas';
+import { TIME_UP_PROMPT } from './utils/negotiation';
+import { CaptionTranslationSettings, loadCaptionSettings, saveCaptionSettings } from './utils/captions';
+
+// m:ss, for recording lengths
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
 
 // Add minimal type definition for Wake Lock API since it might not be in standard TS lib yet
 interface WakeLockSentinel extends EventTarget {
@@ -38,25 +36,142 @@ interface WakeLockSentinel extends EventTarget {
 
 const App: React.FC = () => {
   const [view, setView] = useState<'live' | 'tools'>('live');
-  const [activeMode, setActiveMode] = useState<ModeConfig>(MODES[0]);
+  const [customModes, setCustomModes] = useState<ModeConfig[]>(loadCustomModes);
+  const modes = useMemo(() => [...BUILT_IN_MODES, ...customModes], [customModes]);
+  const [activeMode, setActiveMode] = useState<ModeConfig>(BUILT_IN_MODES[0]);
   const [voiceName, setVoiceName] = useState<string>('Kore');
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(CaptureMode.CONTINUOUS);
+  const [videoFrameRate, setVideoFrameRate] = useState<number>(1);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [typedText, setTypedText] = useState('');
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isPracticeOpen, setIsPracticeOpen] = useState(false);
+  const [isScenarioOpen, setIsScenarioOpen] = useState(false);
+  const [inputDeviceId, setInputDeviceId] = useState('');
+  const [outputDeviceId, setOutputDeviceId] = useState('');
+  const [memoryEnabled, setMemoryEnabled] = useState<boolean>(isMemoryEnabled);
+  const [captionSettings, setCaptionSettings] = useState<CaptionTranslationSettings>(loadCaptionSettings);
+  const { inputs: inputDevices, outputs: outputDevices, refresh: refreshDevices } = useAudioDevices();
+  const practice = usePractice();
+  const negotiation = useNegotiation();
+  const [viewedSession, setViewedSession] = useState<LiveSessionRecord | null>(null);
+
+  // Open the app with ?fakeLive to run against the scripted offline server instead of the Live API
+  const transport = useMemo(() => {
+    if (!new URLSearchParams(window.location.search).has('fakeLive')) return undefined;
+    return createFakeLiveTransport({ script: DEMO_LIVE_SCRIPT });
+  }, []);
   
-  const { connect, disconnect, connectionState, volume, error, transcript } = useLiveGemini(activeMode, voiceName);
+  const {
+    connect, disconnect, connectionState, volume, error, transcript, sendText, sendPrompt,
+    isTalking, startTalking, stopTalking,
+    videoSource, videoStream, startVideo, stopVideo,
+    isRecording, recording, startRecording, stopRecording, clearRecording,
+    metrics,
+    isMuted, isOnHold, setMuted, setOnHold,
+  } = useLiveGemini(activeMode, voiceName, {
+    captureMode, videoFrameRate, transport, inputDeviceId, outputDeviceId, memoryEnabled,
+    extraInstruction: [negotiation.extraInstruction, practice.extraInstruction].filter(Boolean).join('\n\n'),
+    clientTools: practice.clientTools,
+    onSessionEnd: negotiation.handleSessionEnd,
+  });
   const transcriptEndRef = useRef<HTMLDivElement>(null);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
   const isConnected = connectionState === ConnectionState.CONNECTED;
   const isConnecting = connectionState === ConnectionState.CONNECTING;
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
+  // Session is live (mic running) even while the socket is being re-established
+  const isLive = isConnected || isReconnecting;
+  // In push-to-talk mode the mic button and Space talk while held instead of toggling the session
+  const isHoldToTalk = captureMode === CaptureMode.PUSH_TO_TALK && isConnected;
+
+  // Device names are only exposed once mic permission is granted, so re-list after connecting and when settings open
+  useEffect(() => {
+    if (isConnected || isSettingsOpen) refreshDevices();
+  }, [isConnected, isSettingsOpen, refreshDevices]);
+
+  // Fall back to the default device when the selected one is unplugged
+  useEffect(() => {
+    if (inputDeviceId && !inputDevices.some(d => d.deviceId === inputDeviceId)) setInputDeviceId('');
+  }, [inputDevices, inputDeviceId]);
+
+  useEffect(() => {
+    if (outputDeviceId && !outputDevices.some(d => d.deviceId === outputDeviceId)) setOutputDeviceId('');
+  }, [outputDevices, outputDeviceId]);
+
+  const handleSendTyped = () => {
+    if (!typedText.trim() || !isConnected) return;
+    sendText(typedText);
+    setTypedText('');
+  };
 
   const handleToggleConnection = () => {
-    if (isConnected) {
+    if (isLive) {
       disconnect();
     } else {
+      setViewedSession(null);
       connect();
     }
   };
 
+  // A reopened session replaces the live transcript in the card until closed
+  const displayedMessages: TranscriptMessage[] = viewedSession ? viewedSession.messages : transcript;
+  const translations = useCaptionTranslations(displayedMessages, captionSettings);
+
+  const exportSession = (format: 'md' | 'json' | 'srt') => {
+    if (!viewedSession) return;
+    const fileName = `${sessionFileName(viewedSession)}.${format}`;
+    if (format === 'md') downloadTextFile(fileName, sessionToMarkdown(viewedSession), 'text/markdown');
+    else if (format === 'json') downloadTextFile(fileName, sessionToJson(viewedSession), 'application/json');
+    else downloadTextFile(fileName, sessionToSrt(viewedSession), 'application/x-subrip');
+  };
+
+  const exportDiagnostics = () => {
+    if (!metrics) return;
+    const stamp = new Date(metrics.wallClockStartedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const report = exportLiveMetrics(metrics, { mode: activeMode.id, voiceName, captureMode, connectionState });
+    downloadTextFile(`flashtalk-diagnostics-${stamp}.json`, report, 'application/json');
+  };
+
+  const handleSelectPhrase = (phrase: string) => {
+    practice.selectPhrase(phrase);
+    if (isConnected && practice.isPracticing) sendPrompt(phrasePrompt(phrase));
+  };
+
+  // Spoken turns become practice attempts once they are complete
+  const { observeTranscript } = practice;
+  useEffect(() => {
+    observeTranscript(transcript);
+  }, [transcript, observeTranscript]);
+
+  // The counterpart has no clock of its own, so tell it when the scenario's time is up
+  const scenarioTimeLimit = negotiation.activeScenario?.timeLimitMinutes;
+  useEffect(() => {
+    if (!isLive || !scenarioTimeLimit) return;
+    const timer = setTimeout(() => sendPrompt(TIME_UP_PROMPT), scenarioTimeLimit * 60000);
+    return () => clearTimeout(timer);
+  }, [isLive, scenarioTimeLimit, sendPrompt]);
+
+  // Show the debrief as soon as one starts
+  useEffect(() => {
+    if (negotiation.debriefStatus?.state === 'running') setIsScenarioOpen(true);
+  }, [negotiation.debriefStatus]);
+
+  const handleSaveCustomModes = (updated: ModeConfig[]) => {
+    setCustomModes(updated);
+    saveCustomModes(updated);
+    // Edits to the active persona apply from the next connect; deleting it falls back to the default
+    const active = [...BUILT_IN_MODES, ...updated].find(mode => mode.id === activeMode.id);
+    if (active) {
+      setActiveMode(active);
+    } else {
+      if (isLive) disconnect();
+      setActiveMode(BUILT_IN_MODES[0]);
+      setVoiceName(BUILT_IN_MODES[0].voiceName);
+    }
+  };
+
   // Wake Lock and Scroll Effect
   useEffect(() => {
     // 1. Scroll Transcript
@@ -66,7 +181,7 @@ const App: React.FC = () => {
 
     // 2. Manage Wake Lock
     const requestWakeLock = async () => {
-      if ('wakeLock' in navigator && isConnected) {
+      if ('wakeLock' in navigator && isLive) {
         try {
           // @ts-ignore - Navigator.wakeLock is experimental
           wakeLockRef.current = await navigator.wakeLock.request('screen');
@@ -76,7 +191,7 @@ const App: React.FC = () => {
       }
     };
     
-    if (isConnected) {
+    if (isLive) {
       requestWakeLock();
     } else {
        if (wakeLockRef.current) {
@@ -88,22 +203,37 @@ const App: React.FC = () => {
     return () => {
       if (wakeLockRef.current) wakeLockRef.current.release().catch(() => {});
     };
-  }, [transcript, view, isConnected]); // Added view to deps to ensure lock behavior is consistent on switch
+  }, [displayedMessages, view, isLive]); // Added view to deps to ensure lock behavior is consistent on switch
 
-  // Keyboard Shortcut (Space to Toggle Mic)
+  // Keyboard Shortcut (Space to Toggle Mic, or hold to talk in push-to-talk mode)
   useEffect(() => {
+    const isSpaceShortcut = (e: KeyboardEvent) =>
+      e.code === 'Space' && view === 'live' && !isSettingsOpen && !isSessionsOpen &&
+      // Prevent scrolling if not focused on input
+      document.activeElement?.tagName !== 'INPUT' && document.activeElement?.tagName !== 'TEXTAREA';
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space' && view === 'live' && !isSettingsOpen) {
-        // Prevent scrolling if not focused on input
-        if (document.activeElement?.tagName !== 'INPUT' && document.activeElement?.tagName !== 'TEXTAREA') {
-          e.preventDefault();
-          handleToggleConnection();
-        }
+      if (!isSpaceShortcut(e)) return;
+      e.preventDefault();
+      if (isHoldToTalk) {
+        if (!e.repeat) startTalking();
+      } else {
+        handleToggleConnection();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isHoldToTalk && isSpaceShortcut(e)) {
+        e.preventDefault();
+        stopTalking();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [view, isSettingsOpen, isConnected, handleToggleConnection]); // Added handleToggleConnection
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [view, isSettingsOpen, isSessionsOpen, isLive, isHoldToTalk, handleToggleConnection, startTalking, stopTalking]); // Added handleToggleConnection
 
   return (
     <div className="fixed inset-0 bg-[#020617] text-slate-200 font-sans overflow-hidden selection:bg-cyan-500/30">
@@ -115,19 +245,87 @@ const App: React.FC = () => {
       <SettingsModal 
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)}
-        modes={MODES}
+        modes={modes}
         activeMode={activeMode}
         onSelectMode={(mode) => {
-          if (isConnected) disconnect();
+          if (isLive) disconnect();
           setActiveMode(mode);
           setVoiceName(mode.voiceName);
           setIsSettingsOpen(false);
         }}
+        onSaveCustomModes={handleSaveCustomModes}
         currentVoice={voiceName}
         onSelectVoice={(voice) => {
-          if (isConnected) disconnect();
+          if (isLive) disconnect();
           setVoiceName(voice);
         }}
+        captureMode={captureMode}
+        onSelectCaptureMode={(mode) => {
+          if (isLive) disconnect();
+          setCaptureMode(mode);
+        }}
+        videoFrameRate={videoFrameRate}
+        onSelectVideoFrameRate={setVideoFrameRate}
+        inputDevices={inputDevices}
+        inputDeviceId={inputDeviceId}
+        onSelectInputDevice={setInputDeviceId}
+        outputDevices={outputDevices}
+        outputDeviceId={outputDeviceId}
+        onSelectOutputDevice={setOutputDeviceId}
+        memoryEnabled={memoryEnabled}
+        onToggleMemory={(enabled) => {
+          setMemoryEnabled(enabled);
+          storeMemoryEnabled(enabled);
+        }}
+        captionSettings={captionSettings}
+        onChangeCaptionSettings={(settings) => {
+          setCaptionSettings(settings);
+          saveCaptionSettings(settings);
+        }}
+      />
+
+      <PracticePanel
+        isOpen={isPracticeOpen}
+        onClose={() => setIsPracticeOpen(false)}
+        lists={practice.lists}
+        activeList={practice.activeList}
+        onSelectList={practice.selectList}
+        onImportList={practice.importList}
+        onDeleteList={practice.deleteList}
+        isPracticing={practice.isPracticing}
+        onTogglePractice={(enabled) => {
+          // The phrase list and scoring function are part of the session setup
+          if (isLive) disconnect();
+          practice.setIsPracticing(enabled);
+        }}
+        currentPhrase={practice.currentPhrase}
+        onSelectPhrase={handleSelectPhrase}
+        progress={practice.progress}
+        onClearProgress={practice.clearProgress}
+      />
+
+      <ScenarioPanel
+        isOpen={isScenarioOpen}
+        onClose={() => setIsScenarioOpen(false)}
+        scenarios={negotiation.scenarios}
+        activeScenario={negotiation.activeScenario}
+        onSelectScenario={(id) => {
+          // The scenario is compiled into the system instruction at connect
+          if (isLive && id !== (negotiation.activeScenario?.id ?? null)) disconnect();
+          negotiation.setActiveScenarioId(id);
+        }}
+        onSaveScenario={negotiation.saveScenario}
+        onDeleteScenario={negotiation.deleteScenario}
+        debriefStatus={negotiation.debriefStatus}
+      />
+
+      <SessionsPanel
+        isOpen={isSessionsOpen}
+        onClose={() => setIsSessionsOpen(false)}
+        onOpenSession={(session) => {
+          setViewedSession(session);
+          setIsSessionsOpen(false);
+        }}
       />
 
       {/* Main Container */}
@@ -137,16 +335,38 @@ const App: React.FC = () => {
         <header className="flex items-center justify-between px-6 py-6 shrink-0 z-50">
            {view === 'live' ? (
              <>
-                <div className="w-10" /> {/* Spacer */}
-                <h1 className="text-xl font-bold tracking-tight text-white/90 cursor-default">
-                  Flash<span className="text-cyan-400">Talk</span>
-                </h1>
-                <button 
-                  onClick={() => setIsSettingsOpen(true)}
+                <button
+                  onClick={() => setIsSessionsOpen(true)}
                   className="p-2 text-slate-400 hover:text-white transition-colors rounded-full hover:bg-white/5 active:bg-white/10"
+                  title="Sessions"
                 >
-                  <Settings className="w-6 h-6" />
+                  <History className="w-6 h-6" />
                 </button>
+                <h1 className="text-xl font-bold tracking-tight text-white/90 cursor-default">
+                  Flash<span className="text-cyan-400">Talk</span>
+                </h1>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setIsScenarioOpen(true)}
+                    className={`p-2 transition-colors rounded-full hover:bg-white/5 active:bg-white/10 ${negotiation.activeScenario ? 'text-cyan-400' : 'text-slate-400 hover:text-white'}`}
+                    title="Negotiation Scenarios"
+                  >
+                    <Handshake className="w-6 h-6" />
+                  </button>
+                  <button
+                    onClick={() => setIsPracticeOpen(true)}
+                    className={`p-2 transition-colors rounded-full hover:bg-white/5 active:bg-white/10 ${practice.isPracticing ? 'text-cyan-400' : 'text-slate-400 hover:text-white'}`}
+                    title="Practice"
+                  >
+                    <GraduationCap className="w-6 h-6" />
+                  </button>
+                  <button 
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="p-2 text-slate-400 hover:text-white transition-colors rounded-full hover:bg-white/5 active:bg-white/10"
+                  >
+                    <Settings className="w-6 h-6" />
+                  </button>
+                </div>
              </>
            ) : (
              <div className="flex items-center justify-between w-full">
@@ -187,7 +407,78 @@ const App: React.FC = () => {
             {/* Visualizer Area */}
             <div className="flex-1 flex flex-col items-center justify-center -mt-20 z-0 pointer-events-none">
               <div className="relative w-full max-w-[500px] aspect-square flex items-center justify-center">
-                <Visualizer volume={volume} isActive={isConnected} />
+                <Visualizer volume={volume} isActive={isLive} isMuted={isMuted} isOnHold={isOnHold} />
+
+                {/* Latency Diagnostics */}
+                {metrics && (
+                  <div className="absolute top-2 left-2 z-20">
+                    <DiagnosticsPanel metrics={metrics} onExport={exportDiagnostics} />
+                  </div>
+                )}
+
+                {/* Camera / Screen Share Toggles */}
+                {isConnected && (
+                  <div className="absolute top-1/2 right-2 -translate-y-1/2 flex flex-col gap-3 pointer-events-auto">
+                    <button
+                      onClick={() => setMuted(!isMuted)}
+                      disabled={isOnHold}
+                      className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95 disabled:opacity-40 disabled:hover:scale-100 ${
+                        isMuted
+                          ? 'bg-red-500/20 text-red-400 border-red-500/40'
+                          : 'bg-slate-800/80 text-slate-400 border-white/10 hover:text-white'
+                      }`}
+                      title={isMuted ? 'Unmute' : 'Mute Microphone'}
+                    >
+                      {isMuted ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => setOnHold(!isOnHold)}
+                      className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95 ${
+                        isOnHold
+                          ? 'bg-amber-500/20 text-amber-400 border-amber-500/40'
+                          : 'bg-slate-800/80 text-slate-400 border-white/10 hover:text-white'
+                      }`}
+                      title={isOnHold ? 'Resume' : 'Hold'}
+                    >
+                      {isOnHold ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                    </button>
+                    {[
+                      { source: VideoSource.CAMERA, icon: Camera, label: 'Share Camera' },
+                      { source: VideoSource.SCREEN, icon: Monitor, label: 'Share Screen' },
+                    ].map(({ source, icon: Icon, label }) => (
+                      <button
+                        key={source}
+                        onClick={() => videoSource === source ? stopVideo() : startVideo(source)}
+                        className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95 ${
+                          videoSource === source
+                            ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/40'
+                            : 'bg-slate-800/80 text-slate-400 border-white/10 hover:text-white'
+                        }`}
+                        title={videoSource === source ? 'Stop Sharing' : label}
+                      >
+                        <Icon className="w-4 h-4" />
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => isRecording ? stopRecording() : startRecording()}
+                      className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95 ${
+                        isRecording
+                          ? 'bg-red-500/20 text-red-400 border-red-500/40'
+                          : 'bg-slate-800/80 text-slate-400 border-white/10 hover:text-white'
+                      }`}
+                      title={isRecording ? 'Stop Recording' : 'Record Conversation'}
+                    >
+                      <Circle className={`w-4 h-4 ${isRecording ? 'fill-current animate-pulse' : ''}`} />
+                    </button>
+                  </div>
+                )}
+
+                {/* Shared Video Thumbnail */}
+                {videoStream && videoSource && (
+                  <div className="absolute bottom-8 left-4">
+                    <VideoPreview stream={videoStream} source={videoSource} onStop={stopVideo} />
+                  </div>
+                )}
               </div>
               
               {/* Status Text */}
@@ -196,6 +487,22 @@ const App: React.FC = () => {
                   <span className="text-cyan-400 uppercase tracking-widest text-xs font-medium animate-pulse">
                     Connecting...
                   </span>
+                ) : isReconnecting ? (
+                  <span className="text-amber-400 uppercase tracking-widest text-xs font-medium animate-pulse">
+                    Reconnecting...
+                  </span>
+                ) : isOnHold ? (
+                  <span className="text-amber-400 uppercase tracking-widest text-xs font-medium">
+                    On Hold
+                  </span>
+                ) : isMuted ? (
+                  <span className="text-red-400 uppercase tracking-widest text-xs font-medium">
+                    Muted
+                  </span>
+                ) : isHoldToTalk ? (
+                  <span className={`uppercase tracking-widest text-xs font-medium ${isTalking ? 'text-cyan-400 animate-pulse' : 'text-slate-400'}`}>
+                    {isTalking ? 'Talking' : 'Hold Space to Talk'}
+                  </span>
                 ) : isConnected ? (
                   <span className="text-cyan-400 uppercase tracking-widest text-xs font-medium animate-pulse">
                     Listening
@@ -205,44 +512,155 @@ const App: React.FC = () => {
                     Tap to Start
                   </span>
                 )}
+
+                {/* Finished Recording */}
+                {recording && !isRecording && (
+                  <div className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-slate-800/80 border border-white/10 text-xs text-slate-300 shadow-lg backdrop-blur-sm pointer-events-auto animate-in fade-in">
+                    <span className="mr-1">Recording {formatDuration(recording.durationSeconds)}</span>
+                    <a
+                      href={recording.audioUrl}
+                      download={`${recording.fileName}.wav`}
+                      className="p-1.5 rounded-full text-cyan-400 hover:bg-white/10 transition-colors"
+                      title="Download Audio (WAV)"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </a>
+                    <a
+                      href={recording.transcriptUrl}
+                      download={`${recording.fileName}.json`}
+                      className="p-1.5 rounded-full text-cyan-400 hover:bg-white/10 transition-colors"
+                      title="Download Transcript Timings (JSON)"
+                    >
+                      <FileJson className="w-3.5 h-3.5" />
+                    </a>
+                    <button
+                      onClick={clearRecording}
+                      className="p-1.5 rounded-full text-slate-500 hover:text-white hover:bg-white/10 transition-colors"
+                      title="Discard"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Transcript Card */}
             <div className="fixed bottom-[140px] left-4 right-4 h-[30vh] md:w-[600px] md:mx-auto bg-slate-900/40 backdrop-blur-xl border border-white/10 rounded-3xl overflow-hidden flex flex-col shadow-2xl transition-all duration-500 z-10 hover:border-white/20">
                <div className="flex items-center justify-between px-5 py-3 border-b border-white/5 bg-white/5">
-                 <div className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider">
-                   <MessageSquare className="w-3 h-3" />
-                   <span>Conversation</span>
-                 </div>
-                 <div className="flex gap-1.5 opacity-50">
-                   <div className="w-2 h-2 rounded-full bg-red-500" />
-                   <div className="w-2 h-2 rounded-full bg-yellow-500" />
-                   <div className="w-2 h-2 rounded-full bg-green-500" />
-                 </div>
+                 {viewedSession ? (
+                   <>
+                     <div className="flex items-center gap-2 min-w-0 text-xs font-bold text-slate-400 uppercase tracking-wider">
+                       <History className="w-3 h-3 shrink-0" />
+                       <span className="truncate">
+                         {viewedSession.modeName} · {new Date(viewedSession.startedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                       </span>
+                       <span className="px-1.5 py-0.5 rounded-md bg-white/5 text-[9px] text-slate-500">Read-only</span>
+                     </div>
+                     <div className="flex items-center gap-1 shrink-0">
+                       {(['md', 'json', 'srt'] as const).map(format => (
+                         <button
+                           key={format}
+                           onClick={() => exportSession(format)}
+                           className="px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider text-cyan-400 hover:bg-white/10 transition-colors"
+                           title={`Export ${format.toUpperCase()}`}
+                         >
+                           {format}
+                         </button>
+                       ))}
+                       <button
+                         onClick={() => setViewedSession(null)}
+                         className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-white/10 transition-colors"
+                         title="Back to Live Conversation"
+                       >
+                         <X className="w-3.5 h-3.5" />
+                       </button>
+                     </div>
+                   </>
+                 ) : (
+                   <>
+                     <div className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider">
+                       <MessageSquare className="w-3 h-3" />
+                       <span>Conversation</span>
+                     </div>
+                     <div className="flex gap-1.5 opacity-50">
+                       <div className="w-2 h-2 rounded-full bg-red-500" />
+                       <div className="w-2 h-2 rounded-full bg-yellow-500" />
+                       <div className="w-2 h-2 rounded-full bg-green-500" />
+                     </div>
+                   </>
+                 )}
                </div>
                
                <div className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth custom-scrollbar">
-                 {transcript.length === 0 ? (
+                 {viewedSession?.debrief && <DebriefCard debrief={viewedSession.debrief} scenario={viewedSession.scenario} />}
+                 {displayedMessages.length === 0 ? (
                    <div className="h-full flex items-center justify-center text-slate-600 text-sm italic font-light">
                      History will appear here...
                    </div>
                  ) : (
-                   transcript.map((msg) => (
+                   displayedMessages.map((msg) => msg.toolName ? (
+                     <div key={msg.id} className="flex justify-start">
+                        <div className="w-full rounded-2xl px-5 py-3 text-sm bg-slate-950/50 border border-teal-500/20 shadow-md">
+                          <div className="flex items-center gap-2 mb-2 text-[10px] font-bold uppercase tracking-wider text-teal-400">
+                            <Terminal className="w-3 h-3" />
+                            <span>{msg.toolName.replace(/_/g, ' ')}</span>
+                          </div>
+                          <SmartContentRenderer content={msg.text} onContentChange={() => {}} />
+                        </div>
+                     </div>
+                   ) : (
                      <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed shadow-md ${
                           msg.role === 'user' 
                             ? 'bg-slate-700/50 text-white rounded-br-sm border border-white/5' 
                             : 'bg-cyan-950/30 text-cyan-100 border border-cyan-500/10 rounded-bl-sm backdrop-blur-sm'
                         }`}>
-                          {msg.text}
+                          {msg.isTyped && (
+                            <div className="flex items-center gap-1 mb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                              <Keyboard className="w-3 h-3" />
+                              <span>Typed</span>
+                            </div>
+                          )}
+                          <span className={msg.isTyped ? 'whitespace-pre-wrap break-words' : ''}>{msg.text}</span>
+                          {msg.wasInterrupted && <span className="text-cyan-100/40" title="Interrupted">&nbsp;—</span>}
                           {msg.isPartial && <span className="inline-block w-1.5 h-3 ml-1 bg-cyan-400 animate-pulse align-middle" />}
+                          {translations[msg.id] && (
+                            <div className={`mt-1.5 pt-1.5 border-t text-xs italic font-light ${msg.role === 'user' ? 'border-white/10 text-slate-300/80' : 'border-cyan-500/10 text-cyan-100/60'}`}>
+                              {translations[msg.id]}
+                            </div>
+                          )}
                         </div>
                      </div>
                    ))
                  )}
                  <div ref={transcriptEndRef} />
                </div>
+
+               {/* Typed Turn Input */}
+               {!viewedSession && (
+                 <form
+                   onSubmit={(e) => { e.preventDefault(); handleSendTyped(); }}
+                   className="flex items-center gap-2 px-3 py-2 border-t border-white/5 bg-white/[0.02]"
+                 >
+                   <input
+                     type="text"
+                     value={typedText}
+                     onChange={(e) => setTypedText(e.target.value)}
+                     disabled={!isConnected}
+                     placeholder={isConnected ? "Type or paste a message..." : "Start a conversation to type"}
+                     className="flex-1 bg-transparent border-none focus:ring-0 focus:outline-none text-sm text-white placeholder-slate-600 px-2 py-1.5 font-light disabled:cursor-not-allowed"
+                   />
+                   <button
+                     type="submit"
+                     disabled={!isConnected || !typedText.trim()}
+                     className="w-8 h-8 flex items-center justify-center rounded-full bg-cyan-500 text-white shadow-lg transition-all hover:scale-110 disabled:opacity-30 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                     title="Send"
+                   >
+                     <ArrowUp className="w-4 h-4" />
+                   </button>
+                 </form>
+               )}
             </div>
 
             {/* Bottom Controls */}
@@ -257,11 +675,18 @@ const App: React.FC = () => {
                </button>
 
                <button
-                 onClick={handleToggleConnection}
+                 onClick={isHoldToTalk ? undefined : handleToggleConnection}
+                 onPointerDown={isHoldToTalk ? startTalking : undefined}
+                 onPointerUp={isHoldToTalk ? stopTalking : undefined}
+                 onPointerLeave={isHoldToTalk ? stopTalking : undefined}
                  disabled={isConnecting}
                  className={`
-                   group relative w-20 h-20 rounded-full flex items-center justify-center transition-all duration-500 z-10
-                   ${isConnected 
+                   group relative w-20 h-20 rounded-full flex items-center justify-center transition-all duration-500 z-10 touch-none
+                   ${isHoldToTalk
+                     ? isTalking
+                       ? 'bg-cyan-500 text-white shadow-[0_0_60px_rgba(6,182,212,0.7)] scale-110'
+                       : 'bg-slate-700 text-white shadow-[0_0_30px_rgba(6,182,212,0.2)] hover:bg-slate-600'
+                     : isLive 
                      ? 'bg-red-500 text-white shadow-[0_0_40px_rgba(239,68,68,0.5)]' 
                      : 'bg-cyan-500 text-white shadow-[0_0_30px_rgba(6,182,212,0.4)] hover:shadow-[0_0_50px_rgba(6,182,212,0.6)] hover:scale-105'
                    }
@@ -272,7 +697,7 @@ const App: React.FC = () => {
                  ) : (
                    <>
                      {/* Multiple Ripples for Connected State */}
-                     {isConnected && (
+                     {isLive && !isHoldToTalk && (
                        <>
                         <div className="absolute inset-0 rounded-full bg-red-500 animate-[ping_1.5s_cubic-bezier(0,0,0.2,1)_infinite] opacity-30" />
                         <div className="absolute inset-0 rounded-full bg-red-500 animate-[ping_1.5s_cubic-bezier(0,0,0.2,1)_infinite] opacity-20 delay-300" />
@@ -281,18 +706,28 @@ const App: React.FC = () => {
                      )}
                      
                      <div className="relative z-10">
-                        {isConnected ? <MicOff className="w-8 h-8" /> : <Mic className="w-8 h-8" />}
+                        {isLive && !isHoldToTalk ? <MicOff className="w-8 h-8" /> : <Mic className="w-8 h-8" />}
                      </div>
                    </>
                  )}
                </button>
 
-               <button 
-                 onClick={() => setIsSettingsOpen(true)}
-                 className="w-12 h-12 rounded-full bg-slate-800/80 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-700 transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95"
-               >
-                 <Menu className="w-5 h-5" />
-               </button>
+               {captureMode === CaptureMode.PUSH_TO_TALK && isLive ? (
+                 <button 
+                   onClick={disconnect}
+                   className="w-12 h-12 rounded-full bg-red-500/80 border border-red-400/30 flex items-center justify-center text-white hover:bg-red-500 transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95"
+                   title="End Session"
+                 >
+                   <PhoneOff className="w-5 h-5" />
+                 </button>
+               ) : (
+                 <button 
+                   onClick={() => setIsSettingsOpen(true)}
+                   className="w-12 h-12 rounded-full bg-slate-800/80 border border-white/10 flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-700 transition-all shadow-lg backdrop-blur-sm hover:scale-110 active:scale-95"
+                 >
+                   <Menu className="w-5 h-5" />
+                 </button>
+               )}
             </div>
           </>
         ) : (
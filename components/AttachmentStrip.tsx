@@ -0,0 +1,40 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { AttachmentPreview } from '../types';
+
+interface AttachmentStripProps {
+  attachments: AttachmentPreview[];
+  onRemove?: (index: number) => void; // Read-only without it
+  size?: 'sm' | 'md';
+}
+
+const AttachmentStrip: React.FC<AttachmentStripProps> = ({ attachments, onRemove, size = 'md' }) => {
+  const box = size === 'sm' ? 'w-10 h-10 rounded-lg' : 'w-20 h-20 rounded-xl';
+  return (
+    <div className="flex gap-2 overflow-x-auto no-scrollbar">
+      {attachments.map((attachment, index) => (
+        <div key={index} className={`relative shrink-0 group/attachment ${box} overflow-hidden border border-white/10 bg-slate-800/80`} title={attachment.name}>
+          {attachment.thumbnail ? (
+            <img src={attachment.thumbnail} alt={attachment.name} className="w-full h-full object-cover" />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-1 text-slate-400">
+              <FileText className={size === 'sm' ? 'w-4 h-4' : 'w-6 h-6'} />
+              {size === 'md' && <span className="w-full truncate text-center text-[9px]">{attachment.name}</span>}
+            </div>
+          )}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(index)}
+              className="absolute top-1 right-1 p-1 rounded-full bg-black/70 text-slate-300 hover:text-white hover:bg-red-500 transition-colors opacity-0 group-hover/attachment:opacity-100"
+              title="Remove"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentStrip;
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Aperture, Loader2, X } from 'lucide-react';
+import { captureJpegFrame } from '../utils/video';
+import { ATTACHMENT_MAX_SIZE } from '../utils/attachments';
+
+interface CameraCaptureProps {
+  onCapture: (base64Jpeg: string) => void;
+  onClose: () => void;
+}
+
+// Stays open so several photos can be taken in a row
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [flash, setFlash] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1920 }, height: { ideal: 1080 } } })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        // srcObject can't be set through a JSX prop
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch((err: any) => {
+        setError(err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError'
+          ? "Camera access denied. Please allow permissions in your browser settings."
+          : "Could not access camera.");
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = () => {
+    if (!videoRef.current || !canvasRef.current) return;
+    const frame = captureJpegFrame(videoRef.current, canvasRef.current, ATTACHMENT_MAX_SIZE, 0.85);
+    if (!frame) return;
+    onCapture(frame);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-in fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-2xl rounded-3xl overflow-hidden border border-white/10 bg-slate-950 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="relative aspect-video bg-black">
+          <video
+            ref={videoRef}
+            autoPlay
+            muted
+            playsInline
+            onLoadedData={() => setIsReady(true)}
+            className="w-full h-full object-cover -scale-x-100"
+          />
+          <div className={`absolute inset-0 bg-white pointer-events-none transition-opacity duration-150 ${flash ? 'opacity-60' : 'opacity-0'}`} />
+          {!isReady && !error && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-slate-500" />
+            </div>
+          )}
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-red-300">{error}</div>
+          )}
+        </div>
+        <canvas ref={canvasRef} className="hidden" />
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-black/60 text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <div className="flex items-center justify-center p-4">
+          <button
+            onClick={capture}
+            disabled={!isReady}
+            className="flex items-center gap-2 px-6 py-3 rounded-full bg-pink-500 text-white font-semibold text-sm shadow-lg shadow-pink-500/30 hover:scale-105 transition-all disabled:opacity-40 disabled:hover:scale-100"
+          >
+            <Aperture className="w-5 h-5" />
+            Capture
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { CAPTION_LANGUAGES, CaptionTranslationSettings } from '../utils/captions';
+
+interface CaptionSettingsProps {
+  settings: CaptionTranslationSettings;
+  onChange: (settings: CaptionTranslationSettings) => void;
+}
+
+const CaptionSettings: React.FC<CaptionSettingsProps> = ({ settings, onChange }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Captions</h3>
+    <button
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-all border ${
+        settings.enabled
+          ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+          : 'bg-slate-800/40 text-slate-400 border-transparent hover:bg-slate-800/60'
+      }`}
+    >
+      <Languages className="w-4 h-4 shrink-0" />
+      <div className="flex-1">
+        <div className="text-sm font-medium">Translated captions</div>
+        <div className="text-xs text-slate-500 font-light">Adds a translation under every finished line of the transcript.</div>
+      </div>
+      <div className={`w-9 h-5 rounded-full p-0.5 transition-colors ${settings.enabled ? 'bg-cyan-500' : 'bg-slate-700'}`}>
+        <div className={`w-4 h-4 rounded-full bg-white transition-transform ${settings.enabled ? 'translate-x-4' : ''}`} />
+      </div>
+    </button>
+
+    {settings.enabled && (
+      <label className="flex items-center gap-3 mt-3 px-3 py-2 rounded-xl bg-slate-800/40 border border-transparent focus-within:border-cyan-500/30">
+        <span className="text-xs text-slate-400 shrink-0">Translate to</span>
+        <select
+          value={settings.language}
+          onChange={(e) => onChange({ ...settings, language: e.target.value })}
+          className="flex-1 min-w-0 bg-transparent text-sm text-slate-200 focus:outline-none [&>option]:bg-slate-900"
+        >
+          {CAPTION_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+        </select>
+      </label>
+    )}
+  </div>
+);
+
+export default CaptionSettings;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { GitBranch, MessageCircle, Pencil, Trash2 } from 'lucide-react';
+import { ChatThread } from '../types';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onOpen: (thread: ChatThread) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, activeThreadId, onOpen, onRename, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const commitRename = () => {
+    if (renamingId && draftTitle.trim()) onRename(renamingId, draftTitle.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {threads.map(thread => (
+        <div
+          key={thread.id}
+          role="button"
+          onClick={() => renamingId !== thread.id && onOpen(thread)}
+          className={`relative w-full text-left p-4 rounded-2xl border transition-all group cursor-pointer ${
+            thread.id === activeThreadId ? 'bg-indigo-500/10 border-indigo-400/30' : 'bg-white/[0.03] border-white/5 hover:bg-white/[0.07] hover:border-indigo-400/30'
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-1.5 pr-16">
+            {thread.branchedFrom ? <GitBranch className="w-3.5 h-3.5 shrink-0 text-indigo-400" /> : <MessageCircle className="w-3.5 h-3.5 shrink-0 text-indigo-400" />}
+            {renamingId === thread.id ? (
+              <input
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="flex-1 min-w-0 bg-slate-900/60 border border-indigo-400/30 rounded-lg px-2 py-0.5 text-sm text-slate-200 focus:outline-none"
+                autoFocus
+              />
+            ) : (
+              <span className="text-sm text-slate-200 font-medium line-clamp-1">{thread.title || 'New chat'}</span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 font-light">
+            {thread.messages.length} messages · {new Date(thread.updatedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}{' '}
+            {new Date(thread.updatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+          <div className="absolute top-3 right-3 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => { setRenamingId(thread.id); setDraftTitle(thread.title); }}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 transition-colors"
+              title="Rename"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onDelete(thread.id)}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChatThreadList;
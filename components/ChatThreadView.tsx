@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { GitBranch, Loader2, MessageSquarePlus, Sparkles, Square } from 'lucide-react';
+import { ChatThread } from '../types';
+import SmartContentRenderer from './SmartContentRenderer';
+
+interface ChatThreadViewProps {
+  thread: ChatThread;
+  isProcessing: boolean;
+  accentColor: string; // Text colour class of the Chat tool
+  onRename: (title: string) => void;
+  onNewChat: () => void;
+  onBranch: (messageId: string) => void;
+  onMessageChange: (messageId: string, text: string) => void;
+}
+
+const ChatThreadView: React.FC<ChatThreadViewProps> = ({ thread, isProcessing, accentColor, onRename, onNewChat, onBranch, onMessageChange }) => {
+  const [title, setTitle] = useState(thread.title);
+  // Once the reply starts streaming it shows in place of the spinner
+  const awaitingReply = isProcessing && thread.messages[thread.messages.length - 1]?.role === 'user';
+  useEffect(() => setTitle(thread.title), [thread.id, thread.title]);
+
+  const commitTitle = () => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== thread.title) onRename(trimmed);
+    else setTitle(thread.title);
+  };
+
+  return (
+    <div className="space-y-8 max-w-4xl mx-auto">
+      <div className="flex items-center gap-3">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          placeholder="New chat"
+          className="flex-1 min-w-0 bg-transparent border-b border-transparent hover:border-white/10 focus:border-indigo-400/50 focus:outline-none text-lg font-semibold text-white tracking-wide py-1 transition-colors"
+          title="Rename"
+        />
+        <button
+          onClick={onNewChat}
+          className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-white transition-colors bg-white/5 px-4 py-2 rounded-xl hover:bg-white/10"
+        >
+          <MessageSquarePlus className="w-3.5 h-3.5" />
+          New Chat
+        </button>
+      </div>
+
+      {thread.branchedFrom && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <GitBranch className="w-3.5 h-3.5" />
+          Branched from an earlier conversation
+        </div>
+      )}
+
+      {thread.messages.map(message => message.role === 'user' ? (
+        <div key={message.id} className="flex justify-end">
+          <div className="bg-slate-800/80 backdrop-blur-xl border border-white/10 text-slate-100 px-6 py-4 rounded-[2rem] rounded-tr-sm max-w-[90%] sm:max-w-[80%] shadow-2xl">
+            <p className="text-base leading-relaxed font-light whitespace-pre-wrap">{message.text}</p>
+          </div>
+        </div>
+      ) : (
+        <div key={message.id} className="flex items-start gap-5 group">
+          <div className={`hidden sm:flex w-10 h-10 rounded-2xl items-center justify-center shrink-0 mt-1 shadow-lg bg-slate-900 border border-white/10 ${accentColor}`}>
+            <Sparkles className="w-5 h-5" />
+          </div>
+          <div className="flex-1 min-w-0 bg-slate-900/40 border border-white/10 rounded-[2rem] rounded-tl-sm p-8 shadow-2xl backdrop-blur-md relative">
+            <SmartContentRenderer content={message.text} onContentChange={(text) => onMessageChange(message.id, text)} />
+            {message.stopped && (
+              <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-amber-400/80">
+                <Square className="w-3 h-3" />
+                Stopped
+              </div>
+            )}
+            <button
+              onClick={() => onBranch(message.id)}
+              disabled={isProcessing}
+              className="absolute bottom-3 right-4 flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-indigo-400 transition-all opacity-0 group-hover:opacity-100 disabled:hidden"
+              title="Start a new thread from here"
+            >
+              <GitBranch className="w-3 h-3" />
+              Branch
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {awaitingReply && (
+        <div className="flex items-center gap-4 bg-white/5 border border-white/5 px-6 py-4 rounded-2xl w-fit backdrop-blur-sm sm:ml-[3.75rem]">
+          <Loader2 className="w-5 h-5 animate-spin text-cyan-400" />
+          <span className="text-sm font-medium text-slate-300 animate-pulse tracking-wide">
+            Gemini is thinking...
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatThreadView;
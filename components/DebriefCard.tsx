@@ -0,0 +1,80 @@
+import React from 'react';
+import { Anchor, Handshake, Lightbulb, TrendingDown } from 'lucide-react';
+import { NegotiationDebrief, NegotiationScenario } from '../types';
+
+interface DebriefCardProps {
+  debrief: NegotiationDebrief;
+  scenario?: NegotiationScenario;
+}
+
+const scoreColor = (value: number) =>
+  value >= 75 ? 'text-emerald-400' : value >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const SectionTitle: React.FC<{ icon: React.ReactNode; title: string }> = ({ icon, title }) => (
+  <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-cyan-400 mb-1.5">
+    {icon}
+    {title}
+  </div>
+);
+
+const DebriefCard: React.FC<DebriefCardProps> = ({ debrief, scenario }) => (
+  <div className="rounded-2xl bg-white/[0.03] border border-white/10 p-4 space-y-4 text-sm">
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1">Debrief{scenario ? ` · ${scenario.name}` : ''}</div>
+        <div className="text-slate-300 text-xs">
+          {debrief.dealReached
+            ? `Deal reached${debrief.finalPrice !== undefined ? ` at ${debrief.finalPrice.toLocaleString()}${scenario ? ` ${scenario.currency}` : ''}` : ''}`
+            : 'No deal'}
+        </div>
+      </div>
+      <div className={`text-3xl font-bold font-mono ${scoreColor(debrief.score)}`}>{debrief.score}</div>
+    </div>
+
+    {debrief.summary && <p className="text-slate-300 font-light leading-relaxed">{debrief.summary}</p>}
+
+    {debrief.concessions.length > 0 && (
+      <div>
+        <SectionTitle icon={<TrendingDown className="w-3 h-3" />} title="Concessions" />
+        <ul className="space-y-1">
+          {debrief.concessions.map((concession, i) => (
+            <li key={i} className="flex gap-2 text-xs text-slate-300">
+              <span className={`shrink-0 w-20 font-medium ${concession.by === 'user' ? 'text-amber-400' : 'text-emerald-400'}`}>
+                {concession.by === 'user' ? 'You' : 'Counterpart'}
+              </span>
+              <span className="font-light">{concession.description}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    <div>
+      <SectionTitle icon={<Anchor className="w-3 h-3" />} title="Anchoring" />
+      <p className="text-xs text-slate-300 font-light leading-relaxed">
+        <span className="font-medium text-slate-200">
+          {debrief.anchoring.firstOfferBy === 'none' ? 'No first offer. ' : `First offer by ${debrief.anchoring.firstOfferBy === 'user' ? 'you' : 'the counterpart'}. `}
+        </span>
+        {debrief.anchoring.assessment}
+      </p>
+    </div>
+
+    {debrief.missedOpportunities.length > 0 && (
+      <div>
+        <SectionTitle icon={<Lightbulb className="w-3 h-3" />} title="Missed Opportunities" />
+        <ul className="list-disc list-inside space-y-1 text-xs text-slate-300 font-light">
+          {debrief.missedOpportunities.map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      </div>
+    )}
+
+    {scenario && (
+      <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+        <Handshake className="w-3 h-3" />
+        Their walk-away point was {scenario.walkAwayPrice.toLocaleString()} {scenario.currency}
+      </div>
+    )}
+  </div>
+);
+
+export default DebriefCard;
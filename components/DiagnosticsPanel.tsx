@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ChevronDown, Download, Gauge } from 'lucide-react';
+import { LiveMetricsState, summarizeLiveMetrics } from '../utils/liveMetrics';
+
+interface DiagnosticsPanelProps {
+  metrics: LiveMetricsState;
+  onExport: () => void;
+}
+
+const RECENT_TURNS = 5;
+
+const ms = (value: number | null) => value === null ? '–' : `${Math.round(value)} ms`;
+
+// Green under half a second, amber under a second, red beyond
+const latencyColor = (value: number | null) =>
+  value === null ? 'text-slate-500' : value < 500 ? 'text-emerald-400' : value < 1000 ? 'text-amber-400' : 'text-red-400';
+
+const latencyBarColor = (value: number | null) =>
+  value === null ? 'bg-slate-600' : value < 500 ? 'bg-emerald-400' : value < 1000 ? 'bg-amber-400' : 'bg-red-400';
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-slate-200' }) => (
+  <div className="flex items-center justify-between gap-4">
+    <span className="text-slate-500">{label}</span>
+    <span className={`font-mono ${className}`}>{value}</span>
+  </div>
+);
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ metrics, onExport }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const summary = summarizeLiveMetrics(metrics);
+  const lastTurn = metrics.turns[metrics.turns.length - 1];
+
+  return (
+    <div className="w-56 rounded-2xl bg-slate-900/70 border border-white/10 shadow-lg backdrop-blur-md text-[11px] pointer-events-auto overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <Gauge className="w-3.5 h-3.5" />
+        <span className="font-bold uppercase tracking-wider text-[10px]">Diagnostics</span>
+        <span className={`ml-auto font-mono ${latencyColor(lastTurn?.responseLatencyMs ?? null)}`}>
+          {ms(lastTurn?.responseLatencyMs ?? null)}
+        </span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 border-t border-white/5 pt-2">
+          <div className="space-y-1">
+            <div className="text-[9px] font-bold uppercase tracking-wider text-cyan-400">Last Turn</div>
+            <Stat label="Response latency" value={ms(lastTurn?.responseLatencyMs ?? null)} className={latencyColor(lastTurn?.responseLatencyMs ?? null)} />
+            <Stat label="Speech end via" value={lastTurn?.speechEndSource || '–'} />
+            <Stat label="Chunk jitter" value={ms(lastTurn ? lastTurn.jitterMs : null)} />
+            <Stat label="Playback gaps" value={lastTurn ? `${lastTurn.underruns} · ${ms(lastTurn.underrunMs)}` : '–'} />
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-[9px] font-bold uppercase tracking-wider text-cyan-400">Session</div>
+            <Stat label="Turns" value={summary.turns.toString()} />
+            <Stat label="Latency avg" value={ms(summary.avgLatencyMs)} className={latencyColor(summary.avgLatencyMs)} />
+            <Stat label="Latency p50 / p95" value={`${ms(summary.p50LatencyMs)} / ${ms(summary.p95LatencyMs)}`} />
+            <Stat label="Jitter avg" value={ms(summary.avgJitterMs)} />
+            <Stat label="Playback gaps" value={`${summary.underruns} · ${ms(summary.underrunMs)}`} />
+            <Stat label="Interruptions" value={summary.interruptions.toString()} />
+            <Stat label="Reconnects" value={summary.reconnects.toString()} />
+          </div>
+
+          {metrics.turns.length > 0 && (
+            <div className="flex items-end gap-1 h-8" title="Response latency of recent turns">
+              {metrics.turns.slice(-RECENT_TURNS).map(turn => (
+                <div
+                  key={turn.index}
+                  className={`flex-1 rounded-sm ${latencyBarColor(turn.responseLatencyMs)} ${turn.interrupted ? 'opacity-50' : ''}`}
+                  style={{ height: `${Math.max(10, Math.min(100, (turn.responseLatencyMs ?? 0) / 20))}%` }}
+                />
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={onExport}
+            className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-white/5 text-cyan-400 hover:bg-white/10 transition-colors font-bold uppercase tracking-wider text-[10px]"
+          >
+            <Download className="w-3 h-3" />
+            Export JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
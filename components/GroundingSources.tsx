@@ -0,0 +1,34 @@
+import React from 'react';
+import { LucideIcon } from 'lucide-react';
+
+interface GroundingSourcesProps {
+  chunks: any[]; // Grounding chunks from Search or Maps
+  icon: LucideIcon;
+}
+
+const GroundingSources: React.FC<GroundingSourcesProps> = ({ chunks, icon: Icon }) => {
+  if (chunks.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 mt-6">
+      {chunks.map((chunk, i) => {
+        const uri = chunk.web?.uri || chunk.maps?.uri;
+        const title = chunk.web?.title || chunk.maps?.title || "Source";
+        if (!uri) return null;
+        return (
+          <a 
+            key={i} 
+            href={uri} 
+            target="_blank" 
+            rel="noreferrer"
+            className="flex items-center gap-2 px-3 py-2 bg-slate-950/50 border border-white/10 rounded-xl text-xs text-slate-400 hover:text-cyan-400 hover:border-cyan-500/50 transition-all truncate max-w-[220px]"
+          >
+            <Icon className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate font-medium">{title}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GroundingSources;
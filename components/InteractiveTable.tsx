@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { CheckSquare, Plus, Trash2 } from 'lucide-react';
+
+const InteractiveTable: React.FC<{ 
+  rawMarkdown: string, 
+  onUpdate: (newMarkdown: string) => void 
+}> = ({ rawMarkdown, onUpdate }) => {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+
+  useEffect(() => {
+    const lines = rawMarkdown.trim().split('\n').filter(l => l.trim().length > 0);
+    if (lines.length < 2) return;
+
+    const splitRow = (line: string) => {
+      return line.split('|').map(c => c.trim()).filter((c, i, arr) => {
+        if (i === 0 && c === '') return false;
+        if (i === arr.length - 1 && c === '') return false;
+        return true;
+      });
+    };
+
+    const headerRow = splitRow(lines[0]);
+    const bodyRows = lines.slice(2).map(splitRow).filter(r => r.length > 0);
+
+    setHeaders(headerRow);
+    setRows(bodyRows);
+  }, [rawMarkdown]);
+
+  const serializeTable = (currentHeaders: string[], currentRows: string[][]) => {
+    const headerLine = `| ${currentHeaders.join(' | ')} |`;
+    const separatorLine = `| ${currentHeaders.map(() => '---').join(' | ')} |`;
+    const bodyLines = currentRows.map(row => `| ${row.join(' | ')} |`).join('\n');
+    return `${headerLine}\n${separatorLine}\n${bodyLines}`;
+  };
+
+  const updateCell = (rowIndex: number, colIndex: number, value: string) => {
+    const newRows = [...rows];
+    newRows[rowIndex][colIndex] = value;
+    setRows(newRows);
+    onUpdate(serializeTable(headers, newRows));
+  };
+
+  const toggleCheckbox = (rowIndex: number, colIndex: number, currentVal: string) => {
+    let newVal = currentVal;
+    if (/\[\s*\]/.test(currentVal)) {
+      newVal = currentVal.replace(/\[\s*\]/, '[x]');
+    } else if (/\[x\]/i.test(currentVal)) {
+      newVal = currentVal.replace(/\[x\]/i, '[ ]');
+    }
+    updateCell(rowIndex, colIndex, newVal);
+  };
+
+  const addRow = () => {
+    const newRow = new Array(headers.length).fill('');
+    headers.forEach((h, i) => {
+      if (h.toLowerCase().includes('status')) newRow[i] = '[ ]';
+    });
+    const newRows = [...rows, newRow];
+    setRows(newRows);
+    onUpdate(serializeTable(headers, newRows));
+  };
+  
+  const deleteRow = (index: number) => {
+    const newRows = rows.filter((_, i) => i !== index);
+    setRows(newRows);
+    onUpdate(serializeTable(headers, newRows));
+  };
+
+  return (
+    <div className="my-6 overflow-hidden rounded-2xl border border-white/10 shadow-2xl bg-[#0f1219]/60 backdrop-blur-md ring-1 ring-white/5">
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead>
+            <tr className="bg-white/5 border-b border-white/10">
+              {headers.map((h, i) => (
+                <th key={`head-${i}`} className="px-5 py-4 font-semibold text-teal-400 uppercase tracking-widest text-[10px] whitespace-nowrap min-w-[100px]">
+                  {h}
+                </th>
+              ))}
+              <th className="px-2 py-3 w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {rows.map((row, rI) => (
+              <tr key={`row-${rI}`} className="hover:bg-white/[0.03] transition-colors group">
+                {row.map((cell, cI) => {
+                  const isCheckbox = /\[\s*\]|\[x\]/i.test(cell);
+                  return (
+                    <td key={`cell-${rI}-${cI}`} className="px-4 py-3 text-slate-300 relative min-w-[120px]">
+                      {isCheckbox ? (
+                        <button 
+                          onClick={() => toggleCheckbox(rI, cI, cell)}
+                          className="flex items-center gap-3 w-full px-2 py-1.5 rounded-lg hover:bg-white/5 transition-colors text-left group/check"
+                        >
+                          {/\[x\]/i.test(cell) ? (
+                             <div className="w-5 h-5 rounded-md bg-teal-500/20 border border-teal-500 flex items-center justify-center text-teal-400 shrink-0 shadow-[0_0_10px_rgba(45,212,191,0.2)]">
+                               <CheckSquare className="w-3.5 h-3.5" />
+                             </div>
+                          ) : (
+                             <div className="w-5 h-5 rounded-md border border-slate-500/30 group-hover/check:border-teal-500/50 shrink-0 transition-colors bg-white/[0.02]" />
+                          )}
+                          <span className={`truncate text-sm ${/\[x\]/i.test(cell) ? 'line-through text-slate-500' : 'text-slate-200'}`}>
+                            {cell.replace(/\[.\]/, '').trim() || 'Done'}
+                          </span>
+                        </button>
+                      ) : (
+                        <input 
+                          type="text" 
+                          value={cell}
+                          onChange={(e) => updateCell(rI, cI, e.target.value)}
+                          className="w-full bg-transparent border-none focus:ring-0 focus:border-b focus:border-teal-500/50 rounded-none px-2 py-1 text-slate-300 placeholder-slate-600 transition-all font-light"
+                        />
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-2 py-2 text-right">
+                  <button 
+                    onClick={() => deleteRow(rI)}
+                    className="p-2 text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                    title="Delete Row"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button 
+        onClick={addRow}
+        className="w-full py-3 flex items-center justify-center gap-2 text-xs font-medium text-slate-400 hover:text-teal-400 hover:bg-white/5 transition-colors border-t border-white/5 uppercase tracking-wide"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add Row
+      </button>
+    </div>
+  );
+};
+
+export default InteractiveTable;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Brain, Trash2 } from 'lucide-react';
+import { ModeConfig } from '../types';
+import { clearMemories, loadMemories, ModeMemory, saveMemory } from '../utils/memory';
+
+interface MemorySettingsProps {
+  modes: ModeConfig[];
+  isEnabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+const MemorySettings: React.FC<MemorySettingsProps> = ({ modes, isEnabled, onToggle }) => {
+  // Mounted with the settings modal, so this picks up summaries written since it was last open
+  const [memories, setMemories] = useState<Record<string, ModeMemory>>(loadMemories);
+
+  const handleSave = (modeId: string, summary: string) => {
+    saveMemory(modeId, summary);
+    setMemories(loadMemories());
+  };
+
+  const handleClearAll = () => {
+    clearMemories();
+    setMemories({});
+  };
+
+  const remembered = modes.filter(mode => memories[mode.id]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Memory</h3>
+        {remembered.length > 0 && (
+          <button onClick={handleClearAll} className="text-xs text-slate-500 hover:text-red-400 transition-colors">
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={() => onToggle(!isEnabled)}
+        className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-all border ${
+          isEnabled
+            ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+            : 'bg-slate-800/40 text-slate-400 border-transparent hover:bg-slate-800/60'
+        }`}
+      >
+        <Brain className="w-4 h-4 shrink-0" />
+        <div className="flex-1">
+          <div className="text-sm font-medium">Remember conversations</div>
+          <div className="text-xs text-slate-500 font-light">Each persona keeps a short summary of past sessions and picks up from it next time.</div>
+        </div>
+        <div className={`w-9 h-5 rounded-full p-0.5 transition-colors ${isEnabled ? 'bg-cyan-500' : 'bg-slate-700'}`}>
+          <div className={`w-4 h-4 rounded-full bg-white transition-transform ${isEnabled ? 'translate-x-4' : ''}`} />
+        </div>
+      </button>
+
+      {remembered.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {remembered.map(mode => (
+            <div key={mode.id} className="rounded-xl bg-slate-800/40 border border-white/5 p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-slate-300">{mode.name}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] text-slate-500">
+                    {new Date(memories[mode.id].updatedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                  </span>
+                  <button
+                    onClick={() => handleSave(mode.id, '')}
+                    className="p-1 rounded-md text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                    title="Forget"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <textarea
+                key={memories[mode.id].updatedAt}
+                defaultValue={memories[mode.id].summary}
+                onBlur={(e) => {
+                  if (e.target.value.trim() !== memories[mode.id].summary) handleSave(mode.id, e.target.value);
+                }}
+                rows={4}
+                className="w-full bg-slate-900/60 border border-white/5 rounded-lg px-2.5 py-2 text-xs text-slate-300 font-light leading-relaxed resize-y focus:outline-none focus:border-cyan-500/30 custom-scrollbar"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemorySettings;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { ModeConfig, VadSensitivity } from '../types';
+import { VOICES } from '../utils/personas';
+import { DEFAULT_LIVE_MODEL } from '../utils/liveConfig';
+import PersonaIcon, { PERSONA_ICONS } from './PersonaIcon';
+
+interface PersonaEditorProps {
+  mode: ModeConfig;
+  onSave: (mode: ModeConfig) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900/60 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-cyan-500/50';
+
+const LIVE_FLAGS: { key: 'searchGrounding' | 'functionCalls' | 'affectiveDialog' | 'proactiveAudio'; label: string; defaultValue: boolean }[] = [
+  { key: 'functionCalls', label: 'Smart Tools (function calls)', defaultValue: true },
+  { key: 'searchGrounding', label: 'Google Search grounding', defaultValue: false },
+  { key: 'affectiveDialog', label: 'Affective dialog', defaultValue: false },
+  { key: 'proactiveAudio', label: 'Proactive audio', defaultValue: false },
+];
+
+const VAD_OPTIONS: { value: VadSensitivity | undefined; label: string }[] = [
+  { value: undefined, label: 'Default' },
+  { value: VadSensitivity.LOW, label: 'Low' },
+  { value: VadSensitivity.HIGH, label: 'High' },
+];
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ mode, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ModeConfig>(mode);
+  const [showLiveSettings, setShowLiveSettings] = useState(false);
+  const update = (changes: Partial<ModeConfig>) => setDraft(prev => ({ ...prev, ...changes }));
+  const canSave = draft.name.trim().length > 0 && draft.systemInstruction.trim().length > 0;
+
+  return (
+    <div className="space-y-4 p-4 rounded-2xl bg-slate-800/40 border border-cyan-500/30">
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">Name</label>
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Interview Coach"
+          className={inputClass}
+          autoFocus
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">Description</label>
+        <input
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Mock interviews with feedback on every answer."
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">System Instruction</label>
+        <textarea
+          value={draft.systemInstruction}
+          onChange={(e) => update({ systemInstruction: e.target.value })}
+          placeholder="You are an experienced hiring manager..."
+          rows={5}
+          className={`${inputClass} resize-y custom-scrollbar`}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">Default Voice</label>
+        <div className="grid grid-cols-3 gap-2">
+          {VOICES.map((voice) => (
+            <button
+              key={voice}
+              onClick={() => update({ voiceName: voice })}
+              className={`px-2 py-1.5 rounded-lg text-xs font-medium transition-all border ${
+                draft.voiceName === voice
+                  ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                  : 'bg-slate-900/60 text-slate-400 border-transparent hover:bg-slate-900'
+              }`}
+            >
+              {voice}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">Icon</label>
+        <div className="flex flex-wrap gap-2">
+          {Object.keys(PERSONA_ICONS).map((icon) => (
+            <button
+              key={icon}
+              onClick={() => update({ icon })}
+              className={`p-2 rounded-lg transition-all border ${
+                draft.icon === icon
+                  ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                  : 'bg-slate-900/60 text-slate-400 border-transparent hover:bg-slate-900'
+              }`}
+              title={icon}
+            >
+              <PersonaIcon icon={icon} className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <button
+          onClick={() => setShowLiveSettings(!showLiveSettings)}
+          className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showLiveSettings ? 'rotate-180' : ''}`} />
+          Live Settings
+        </button>
+
+        {showLiveSettings && (
+          <div className="mt-3 space-y-4">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1.5">Model</label>
+              <input
+                value={draft.model || ''}
+                onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+                placeholder={DEFAULT_LIVE_MODEL}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">Temperature</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={draft.temperature ?? ''}
+                  onChange={(e) => update({ temperature: e.target.value === '' ? undefined : Math.min(2, Math.max(0, Number(e.target.value))) })}
+                  placeholder="Default"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">Language</label>
+                <input
+                  value={draft.languageCode || ''}
+                  onChange={(e) => update({ languageCode: e.target.value.trim() || undefined })}
+                  placeholder="Auto, e.g. es-ES"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {LIVE_FLAGS.map(({ key, label, defaultValue }) => {
+                const isOn = draft[key] ?? defaultValue;
+                return (
+                  <label key={key} className="flex items-center justify-between gap-3 text-sm text-slate-300 cursor-pointer">
+                    {label}
+                    <input
+                      type="checkbox"
+                      checked={isOn}
+                      onChange={(e) => update({ [key]: e.target.checked === defaultValue ? undefined : e.target.checked })}
+                      className="w-4 h-4 accent-cyan-500"
+                    />
+                  </label>
+                );
+              })}
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-400 mb-1.5">Turn Detection Sensitivity</label>
+              <div className="grid grid-cols-3 gap-2">
+                {VAD_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={label}
+                    onClick={() => update({ vadSensitivity: value })}
+                    className={`px-2 py-1.5 rounded-lg text-xs font-medium transition-all border ${
+                      draft.vadSensitivity === value
+                        ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                        : 'bg-slate-900/60 text-slate-400 border-transparent hover:bg-slate-900'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1.5 text-[11px] text-slate-500 font-light">Only applies in Continuous microphone mode.</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() })}
+          disabled={!canSave}
+          className="px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
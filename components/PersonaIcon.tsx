@@ -0,0 +1,26 @@
+import React from 'react';
+import { Bot, Briefcase, GraduationCap, Headphones, Heart, MessageSquare, Sparkles, User, Zap } from 'lucide-react';
+
+export const PERSONA_ICONS: Record<string, React.FC<{ className?: string }>> = {
+  'zap': Zap,
+  'message-square': MessageSquare,
+  'user': User,
+  'bot': Bot,
+  'briefcase': Briefcase,
+  'graduation-cap': GraduationCap,
+  'headphones': Headphones,
+  'heart': Heart,
+  'sparkles': Sparkles,
+};
+
+interface PersonaIconProps {
+  icon?: string;
+  className?: string;
+}
+
+const PersonaIcon: React.FC<PersonaIconProps> = ({ icon, className }) => {
+  const Icon = (icon && PERSONA_ICONS[icon]) || Bot;
+  return <Icon className={className} />;
+};
+
+export default PersonaIcon;
@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { ModeConfig } from '../types';
+import { createModeId, duplicateMode, exportModes, isBuiltInMode, mergeModes, parseModes } from '../utils/personas';
+import { saveMemory } from '../utils/memory';
+import { downloadTextFile } from '../utils/sessionExport';
+import PersonaEditor from './PersonaEditor';
+import PersonaIcon from './PersonaIcon';
+
+interface PersonaSettingsProps {
+  modes: ModeConfig[];
+  activeMode: ModeConfig;
+  onSelectMode: (mode: ModeConfig) => void;
+  onSaveCustomModes: (modes: ModeConfig[]) => void;
+}
+
+const NEW_PERSONA: Omit<ModeConfig, 'id'> = {
+  name: '',
+  description: '',
+  systemInstruction: '',
+  voiceName: 'Kore',
+  icon: 'bot',
+};
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ modes, activeMode, onSelectMode, onSaveCustomModes }) => {
+  const [editing, setEditing] = useState<ModeConfig | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const customModes = modes.filter(mode => !isBuiltInMode(mode.id));
+
+  const handleSave = (mode: ModeConfig) => {
+    const exists = customModes.some(m => m.id === mode.id);
+    onSaveCustomModes(exists ? customModes.map(m => m.id === mode.id ? mode : m) : [...customModes, mode]);
+    setEditing(null);
+  };
+
+  const handleDelete = (mode: ModeConfig) => {
+    onSaveCustomModes(customModes.filter(m => m.id !== mode.id));
+    saveMemory(mode.id, '');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onSaveCustomModes(mergeModes(customModes, parseModes(await file.text())));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || 'Could not import personas.');
+    }
+  };
+
+  const iconButton = 'p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 transition-colors';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Assistant Persona</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={iconButton} title="Import JSON">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => downloadTextFile('flashtalk-personas.json', exportModes(customModes), 'application/json')}
+            disabled={customModes.length === 0}
+            className={`${iconButton} disabled:opacity-30 disabled:pointer-events-none`}
+            title="Export custom personas"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={() => setEditing({ ...NEW_PERSONA, id: createModeId() })} className={iconButton} title="New persona">
+            <Plus className="w-4 h-4" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {importError && <p className="mb-3 text-xs text-red-400">{importError}</p>}
+
+      {editing && !modes.some(m => m.id === editing.id) && (
+        <div className="mb-3">
+          <PersonaEditor mode={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {modes.map((mode) => editing?.id === mode.id ? (
+          <PersonaEditor key={mode.id} mode={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <div
+            key={mode.id}
+            role="button"
+            onClick={() => onSelectMode(mode)}
+            className={`group relative w-full flex items-start gap-4 p-4 rounded-2xl border transition-all cursor-pointer ${
+              activeMode.id === mode.id 
+                ? 'bg-cyan-500/10 border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.1)]' 
+                : 'bg-slate-800/40 border-transparent hover:bg-slate-800/80 hover:border-white/5'
+            }`}
+          >
+            <div className={`p-3 rounded-xl ${activeMode.id === mode.id ? 'bg-cyan-500 text-white' : 'bg-slate-700/50 text-slate-400'}`}>
+              <PersonaIcon icon={mode.icon} className="w-5 h-5" />
+            </div>
+            <div className="text-left flex-1 min-w-0">
+              <div className={`font-medium mb-1 ${activeMode.id === mode.id ? 'text-cyan-400' : 'text-slate-200'}`}>
+                {mode.name}
+              </div>
+              <div className="text-xs text-slate-400 leading-relaxed font-light">
+                {mode.description}
+              </div>
+            </div>
+            <div className="absolute top-2 right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => setEditing(duplicateMode(mode))} className={iconButton} title="Duplicate">
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+              {!isBuiltInMode(mode.id) && (
+                <>
+                  <button onClick={() => setEditing(mode)} className={iconButton} title="Edit">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(mode)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors" title="Delete">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaSettings;
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle2, ChevronRight, GraduationCap, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { PracticeList } from '../types';
+import { PhraseProgress, RETRY_THRESHOLD } from '../utils/practice';
+import { diffWords } from '../utils/wordDiff';
+
+interface PracticePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lists: PracticeList[];
+  activeList: PracticeList | null;
+  onSelectList: (id: string) => void;
+  onImportList: (file: File) => Promise<void>;
+  onDeleteList: (id: string) => void;
+  isPracticing: boolean;
+  onTogglePractice: (enabled: boolean) => void;
+  currentPhrase: string | null;
+  onSelectPhrase: (phrase: string) => void;
+  progress: PhraseProgress[];
+  onClearProgress: (listId: string) => void;
+}
+
+const RECENT_ATTEMPTS = 6;
+
+const scoreColor = (value: number) =>
+  value >= RETRY_THRESHOLD ? 'text-emerald-400' : value >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const scoreBarColor = (value: number) =>
+  value >= RETRY_THRESHOLD ? 'bg-emerald-400' : value >= 50 ? 'bg-amber-400' : 'bg-red-400';
+
+const PracticePanel: React.FC<PracticePanelProps> = ({
+  isOpen, onClose, lists, activeList, onSelectList, onImportList, onDeleteList,
+  isPracticing, onTogglePractice, currentPhrase, onSelectPhrase, progress, onClearProgress,
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const current = progress.find(p => p.phrase === currentPhrase) || null;
+  const latest = current?.latest || null;
+  const toRetry = progress.filter(p => p.needsRetry);
+  const practised = progress.filter(p => p.attempts.length > 0).length;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await onImportList(file);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || 'Could not import the phrase list.');
+    }
+  };
+
+  // Cycles through weak phrases, starting after the current one
+  const handleRetryNext = () => {
+    const start = toRetry.findIndex(p => p.phrase === currentPhrase);
+    const next = toRetry[(start + 1) % toRetry.length];
+    if (next) onSelectPhrase(next.phrase);
+  };
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-full sm:w-96 z-[60] bg-[#0b0f19]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col transform transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+      <div className="flex items-center justify-between p-6 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <GraduationCap className="w-5 h-5 text-cyan-400" />
+          <h3 className="font-semibold text-white tracking-wide text-lg">Practice</h3>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 border-b border-white/5">
+        <div className="flex items-center gap-2">
+          <select
+            value={activeList?.id || ''}
+            onChange={(e) => onSelectList(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-800/60 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500/50"
+          >
+            {lists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+          </select>
+          <button onClick={() => fileInputRef.current?.click()} className="p-2 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Import phrases (.txt or .json)">
+            <Upload className="w-4 h-4" />
+          </button>
+          {activeList && (
+            <button onClick={() => onDeleteList(activeList.id)} className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors" title="Delete list">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept=".txt,.json,text/plain,application/json" onChange={handleImport} className="hidden" />
+        </div>
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+        <button
+          onClick={() => onTogglePractice(!isPracticing)}
+          className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-all border ${
+            isPracticing ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'bg-slate-800/40 text-slate-400 border-transparent hover:bg-slate-800/60'
+          }`}
+        >
+          <div className="flex-1">
+            <div className="text-sm font-medium">Practice mode</div>
+            <div className="text-xs text-slate-500 font-light">The tutor scores each attempt. Starts with the next session.</div>
+          </div>
+          <div className={`w-9 h-5 rounded-full p-0.5 transition-colors ${isPracticing ? 'bg-cyan-500' : 'bg-slate-700'}`}>
+            <div className={`w-4 h-4 rounded-full bg-white transition-transform ${isPracticing ? 'translate-x-4' : ''}`} />
+          </div>
+        </button>
+      </div>
+
+      {currentPhrase && (
+        <div className="p-4 border-b border-white/5 space-y-3">
+          <div className="text-[10px] font-bold uppercase tracking-wider text-cyan-400">Current Phrase</div>
+          <p className="text-lg text-white font-medium leading-snug">{currentPhrase}</p>
+          {latest ? (
+            <>
+              <p className="text-sm leading-relaxed">
+                {diffWords(currentPhrase, latest.heard).tokens.map((token, i) => (
+                  <span
+                    key={i}
+                    className={
+                      token.status === 'missed' ? 'text-red-400 line-through decoration-red-400/60 mr-1'
+                      : token.status === 'extra' ? 'text-amber-400/80 italic mr-1'
+                      : 'text-slate-300 mr-1'
+                    }
+                    title={token.status === 'missed' ? 'Not heard' : token.status === 'extra' ? 'Not in the phrase' : undefined}
+                  >
+                    {token.word}
+                  </span>
+                ))}
+              </p>
+              <div className="flex items-center gap-4 text-xs">
+                <span className="text-slate-500">Words <span className={`font-mono ${scoreColor(latest.accuracy)}`}>{latest.accuracy}%</span></span>
+                {latest.score && (
+                  <span className="text-slate-500">Tutor <span className={`font-mono ${scoreColor(latest.score.score)}`}>{latest.score.score}</span></span>
+                )}
+              </div>
+              {latest.score && latest.score.mispronouncedWords.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {latest.score.mispronouncedWords.map(word => (
+                    <span key={word} className="px-2 py-0.5 rounded-md bg-red-500/10 border border-red-500/20 text-[11px] text-red-300">{word}</span>
+                  ))}
+                </div>
+              )}
+              {latest.score?.feedback && <p className="text-xs text-slate-400 font-light leading-relaxed">{latest.score.feedback}</p>}
+            </>
+          ) : (
+            <p className="text-xs text-slate-500">{isPracticing ? 'Say the phrase when the tutor is done.' : 'Turn on practice mode and connect to start.'}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between px-4 pt-4 text-xs text-slate-500">
+        <span>{practised} / {progress.length} practised</span>
+        {toRetry.length > 0 && (
+          <button onClick={handleRetryNext} className="flex items-center gap-1.5 text-amber-400 hover:text-amber-300 transition-colors">
+            <RotateCcw className="w-3.5 h-3.5" />
+            Retry weak ({toRetry.length})
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+        {progress.map(item => (
+          <button
+            key={item.phrase}
+            onClick={() => onSelectPhrase(item.phrase)}
+            className={`w-full text-left p-3 rounded-xl border transition-all ${
+              item.phrase === currentPhrase ? 'bg-cyan-500/10 border-cyan-500/40' : 'bg-white/[0.03] border-white/5 hover:bg-white/[0.07]'
+            }`}
+          >
+            <div className="flex items-start gap-2">
+              <span className="flex-1 text-sm text-slate-200">{item.phrase}</span>
+              {item.needsRetry && <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-amber-400/10 text-[10px] font-bold uppercase tracking-wider text-amber-400">Retry</span>}
+              {item.latest && !item.needsRetry && <CheckCircle2 className="shrink-0 w-4 h-4 text-emerald-400" />}
+            </div>
+            {item.attempts.length > 0 && (
+              <div className="flex items-end justify-between gap-3 mt-2">
+                <span className="text-[11px] text-slate-500">
+                  {item.attempts.length} {item.attempts.length === 1 ? 'try' : 'tries'} · best {item.bestAccuracy}%
+                </span>
+                <div className="flex items-end gap-0.5 h-4" title="Word accuracy of recent attempts">
+                  {item.attempts.slice(-RECENT_ATTEMPTS).map(attempt => (
+                    <div key={attempt.id} className={`w-1.5 rounded-sm ${scoreBarColor(attempt.accuracy)}`} style={{ height: `${Math.max(15, attempt.accuracy)}%` }} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {activeList && practised > 0 && (
+        <div className="p-4 border-t border-white/5">
+          <button onClick={() => onClearProgress(activeList.id)} className="w-full text-xs text-slate-500 hover:text-red-400 transition-colors">
+            Clear progress for this list
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticePanel;
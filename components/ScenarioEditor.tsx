@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { NegotiationScenario } from '../types';
+import { scenarioProblems } from '../utils/negotiation';
+
+interface ScenarioEditorProps {
+  scenario: NegotiationScenario;
+  onSave: (scenario: NegotiationScenario) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900/60 border border-white/10 rounded-xl px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-cyan-500/50';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <label className="block text-xs text-slate-400 mb-1.5">{label}</label>
+    {children}
+  </div>
+);
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenario, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<NegotiationScenario>(scenario);
+  const update = (changes: Partial<NegotiationScenario>) => setDraft(prev => ({ ...prev, ...changes }));
+  const problems = scenarioProblems(draft);
+
+  const numberInput = (key: 'priceFloor' | 'priceCeiling' | 'walkAwayPrice' | 'timeLimitMinutes') => (
+    <input
+      type="number"
+      min={0}
+      value={Number.isFinite(draft[key]) ? draft[key] : ''}
+      onChange={(e) => update({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="space-y-4 p-4 rounded-2xl bg-slate-800/40 border border-cyan-500/30">
+      <Field label="Name">
+        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Salary negotiation" className={inputClass} autoFocus />
+      </Field>
+
+      <Field label="You are the">
+        <div className="grid grid-cols-2 gap-2">
+          {(['buyer', 'seller'] as const).map(role => (
+            <button
+              key={role}
+              onClick={() => update({ userRole: role })}
+              className={`px-2 py-1.5 rounded-lg text-xs font-medium capitalize transition-all border ${
+                draft.userRole === role
+                  ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                  : 'bg-slate-900/60 text-slate-400 border-transparent hover:bg-slate-900'
+              }`}
+            >
+              {role}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      <Field label="Counterpart">
+        <input value={draft.counterpartRole} onChange={(e) => update({ counterpartRole: e.target.value })} placeholder="Hiring manager at a fintech startup" className={inputClass} />
+      </Field>
+
+      <Field label="Product or deal">
+        <input value={draft.product} onChange={(e) => update({ product: e.target.value })} placeholder="Senior engineer offer, base salary" className={inputClass} />
+      </Field>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Field label="Currency">
+          <input value={draft.currency} onChange={(e) => update({ currency: e.target.value.toUpperCase() })} placeholder="USD" className={inputClass} />
+        </Field>
+        <Field label="Price from">{numberInput('priceFloor')}</Field>
+        <Field label="Price to">{numberInput('priceCeiling')}</Field>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Field label="Their walk-away (secret)">{numberInput('walkAwayPrice')}</Field>
+        <Field label="Time limit (min)">{numberInput('timeLimitMinutes')}</Field>
+      </div>
+
+      <Field label="Background (optional)">
+        <textarea
+          value={draft.notes || ''}
+          onChange={(e) => update({ notes: e.target.value })}
+          placeholder="Anything both sides know: history, competing offers, deadlines..."
+          rows={3}
+          className={`${inputClass} resize-y custom-scrollbar`}
+        />
+      </Field>
+
+      {problems.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-amber-400">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), currency: draft.currency.trim() || 'USD' })}
+          disabled={problems.length > 0}
+          className="px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
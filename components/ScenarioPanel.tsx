@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronRight, Handshake, Loader2, Pencil, Plus, Timer, Trash2 } from 'lucide-react';
+import { NegotiationScenario } from '../types';
+import { DebriefStatus } from '../hooks/useNegotiation';
+import { createScenarioId } from '../utils/negotiation';
+import DebriefCard from './DebriefCard';
+import ScenarioEditor from './ScenarioEditor';
+
+interface ScenarioPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scenarios: NegotiationScenario[];
+  activeScenario: NegotiationScenario | null;
+  onSelectScenario: (id: string | null) => void;
+  onSaveScenario: (scenario: NegotiationScenario) => void;
+  onDeleteScenario: (id: string) => void;
+  debriefStatus: DebriefStatus | null;
+}
+
+const newScenario = (): NegotiationScenario => ({
+  id: createScenarioId(),
+  name: '',
+  userRole: 'buyer',
+  counterpartRole: '',
+  product: '',
+  currency: 'USD',
+  priceFloor: 1000,
+  priceCeiling: 2000,
+  walkAwayPrice: 1500,
+  timeLimitMinutes: 10,
+});
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({
+  isOpen, onClose, scenarios, activeScenario, onSelectScenario, onSaveScenario, onDeleteScenario, debriefStatus,
+}) => {
+  const [editing, setEditing] = useState<NegotiationScenario | null>(null);
+
+  const handleSave = (scenario: NegotiationScenario) => {
+    onSaveScenario(scenario);
+    setEditing(null);
+  };
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-full sm:w-96 z-[60] bg-[#0b0f19]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col transform transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+      <div className="flex items-center justify-between p-6 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <Handshake className="w-5 h-5 text-cyan-400" />
+          <h3 className="font-semibold text-white tracking-wide text-lg">Scenarios</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setEditing(newScenario())} className="p-2 text-slate-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="New scenario">
+            <Plus className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+        {debriefStatus?.state === 'running' && (
+          <div className="flex items-center gap-3 p-4 rounded-2xl bg-white/[0.03] border border-white/10 text-sm text-slate-300">
+            <Loader2 className="w-4 h-4 animate-spin text-cyan-400" />
+            Analysing your {debriefStatus.scenario.name} negotiation...
+          </div>
+        )}
+        {debriefStatus?.state === 'error' && (
+          <div className="flex items-start gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>{debriefStatus.error} The transcript was still saved to Sessions.</span>
+          </div>
+        )}
+        {debriefStatus?.state === 'done' && debriefStatus.debrief && (
+          <DebriefCard debrief={debriefStatus.debrief} scenario={debriefStatus.scenario} />
+        )}
+
+        <p className="text-xs text-slate-500 font-light px-1">
+          Pick a scenario and the assistant plays your counterpart from the next connect. A debrief is generated when the session ends.
+        </p>
+
+        {editing && !scenarios.some(s => s.id === editing.id) && (
+          <ScenarioEditor scenario={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        )}
+
+        <button
+          onClick={() => onSelectScenario(null)}
+          className={`w-full text-left p-4 rounded-2xl border transition-all text-sm ${
+            !activeScenario ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-400' : 'bg-white/[0.03] border-white/5 text-slate-400 hover:bg-white/[0.07]'
+          }`}
+        >
+          No scenario
+        </button>
+
+        {scenarios.map(scenario => editing?.id === scenario.id ? (
+          <ScenarioEditor key={scenario.id} scenario={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : (
+          <div
+            key={scenario.id}
+            role="button"
+            onClick={() => onSelectScenario(scenario.id)}
+            className={`group relative w-full text-left p-4 rounded-2xl border transition-all cursor-pointer ${
+              activeScenario?.id === scenario.id ? 'bg-cyan-500/10 border-cyan-500/40' : 'bg-white/[0.03] border-white/5 hover:bg-white/[0.07]'
+            }`}
+          >
+            <div className={`font-medium mb-1 pr-14 ${activeScenario?.id === scenario.id ? 'text-cyan-400' : 'text-slate-200'}`}>{scenario.name}</div>
+            <p className="text-xs text-slate-400 font-light leading-relaxed mb-2">{scenario.product}</p>
+            <div className="flex items-center gap-3 text-[11px] text-slate-500">
+              <span className="capitalize">You: {scenario.userRole}</span>
+              <span>{scenario.priceFloor.toLocaleString()}–{scenario.priceCeiling.toLocaleString()} {scenario.currency}</span>
+              <span className="flex items-center gap-1"><Timer className="w-3 h-3" />{scenario.timeLimitMinutes} min</span>
+            </div>
+            <div className="absolute top-3 right-3 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => setEditing(scenario)} className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Edit">
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => onDeleteScenario(scenario.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors" title="Delete">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
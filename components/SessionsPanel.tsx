@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronRight, History, MessageSquare, Trash2 } from 'lucide-react';
+import { LiveSessionRecord } from '../types';
+import { clearSessions, deleteSession, loadSessions } from '../utils/liveSessions';
+
+interface SessionsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenSession: (session: LiveSessionRecord) => void;
+}
+
+const formatLength = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? '< 1 min' : `${minutes} min`;
+};
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ isOpen, onClose, onOpenSession }) => {
+  const [sessions, setSessions] = useState<LiveSessionRecord[]>([]);
+
+  // Sessions are written by the live hook, so re-read storage every time the panel opens
+  useEffect(() => {
+    if (isOpen) setSessions(loadSessions());
+  }, [isOpen]);
+
+  const handleClear = () => {
+    clearSessions();
+    setSessions([]);
+  };
+
+  return (
+    <div className={`fixed inset-y-0 left-0 w-full sm:w-96 z-[60] bg-[#0b0f19]/95 backdrop-blur-xl border-r border-white/10 shadow-2xl flex flex-col transform transition-transform duration-300 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className="flex items-center justify-between p-6 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-cyan-400" />
+          <h3 className="font-semibold text-white tracking-wide text-lg">Sessions</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {sessions.length > 0 && (
+            <button onClick={handleClear} className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors" title="Clear All">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-white hover:bg-white/5 rounded-lg transition-colors">
+            <ChevronRight className="w-5 h-5 rotate-180" />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+        {sessions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-slate-600 gap-4">
+            <div className="w-16 h-16 rounded-full bg-slate-900/50 flex items-center justify-center">
+              <MessageSquare className="w-8 h-8 opacity-40" />
+            </div>
+            <p className="text-sm font-medium">No saved conversations</p>
+          </div>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              role="button"
+              onClick={() => onOpenSession(session)}
+              className="relative w-full text-left p-4 rounded-2xl bg-white/[0.03] border border-white/5 hover:bg-white/[0.07] hover:border-cyan-500/30 transition-all group cursor-pointer active:scale-[0.98]"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="px-2.5 py-1 rounded-lg bg-white/5 border border-cyan-500/20 text-[10px] font-bold uppercase tracking-wider text-cyan-400">
+                  {session.modeName}
+                </span>
+                <span className="text-[10px] text-slate-500 font-medium">
+                  {new Date(session.startedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}{' '}
+                  {new Date(session.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {' · '}{formatLength(session.endedAt - session.startedAt)}
+                </span>
+              </div>
+              <p className="text-sm text-slate-200 font-medium line-clamp-1 mb-1.5">
+                {session.messages.find(m => m.role === 'user')?.text || session.messages[0]?.text}
+              </p>
+              <p className="text-xs text-slate-500 font-light">
+                {session.messages.length} messages · {session.voiceName}
+                {session.scenario && ` · ${session.scenario.name}`}
+                {session.debrief && <span className="text-cyan-400"> · Score {session.debrief.score}</span>}
+              </p>
+              <button
+                onClick={(e) => { e.stopPropagation(); setSessions(deleteSession(session.id)); }}
+                className="absolute bottom-3 right-3 p-1.5 rounded-lg text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-400/10 transition-all"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -1,7 +1,13 @@
 
 import React from 'react';
-import { X, User, Zap, MessageSquare, Mic } from 'lucide-react';
-import { ModeConfig } from '../types';
+import { X, Mic, Radio, Hand, Activity, Volume2 } from 'lucide-react';
+import { CaptureMode, ModeConfig } from '../types';
+import { deviceLabel, isOutputSelectionSupported } from '../utils/audioDevices';
+import { VOICES } from '../utils/personas';
+import { CaptionTranslationSettings } from '../utils/captions';
+import MemorySettings from './MemorySettings';
+import CaptionSettings from './CaptionSettings';
+import PersonaSettings from './PersonaSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -9,11 +15,32 @@ interface SettingsModalProps {
   modes: ModeConfig[];
   activeMode: ModeConfig;
   onSelectMode: (mode: ModeConfig) => void;
+  onSaveCustomModes: (modes: ModeConfig[]) => void;
   currentVoice: string;
   onSelectVoice: (voice: string) => void;
+  captureMode: CaptureMode;
+  onSelectCaptureMode: (mode: CaptureMode) => void;
+  videoFrameRate: number;
+  onSelectVideoFrameRate: (fps: number) => void;
+  inputDevices: MediaDeviceInfo[];
+  inputDeviceId: string;
+  onSelectInputDevice: (deviceId: string) => void;
+  outputDevices: MediaDeviceInfo[];
+  outputDeviceId: string;
+  onSelectOutputDevice: (deviceId: string) => void;
+  memoryEnabled: boolean;
+  onToggleMemory: (enabled: boolean) => void;
+  captionSettings: CaptionTranslationSettings;
+  onChangeCaptionSettings: (settings: CaptionTranslationSettings) => void;
 }
 
-const VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
+const VIDEO_FRAME_RATES = [0.5, 1, 2];
+
+const CAPTURE_MODES = [
+  { id: CaptureMode.CONTINUOUS, name: 'Continuous', description: 'Always listening, the server detects turns.', icon: Radio },
+  { id: CaptureMode.PUSH_TO_TALK, name: 'Push to Talk', description: 'Hold Space or the mic button while speaking.', icon: Hand },
+  { id: CaptureMode.VAD, name: 'Voice Detection', description: 'Only sends audio while speech is detected. Best for noisy rooms.', icon: Activity },
+];
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
   isOpen, 
@@ -21,8 +48,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   modes, 
   activeMode, 
   onSelectMode,
+  onSaveCustomModes,
   currentVoice,
-  onSelectVoice
+  onSelectVoice,
+  captureMode,
+  onSelectCaptureMode,
+  videoFrameRate,
+  onSelectVideoFrameRate,
+  inputDevices,
+  inputDeviceId,
+  onSelectInputDevice,
+  outputDevices,
+  outputDeviceId,
+  onSelectOutputDevice,
+  memoryEnabled,
+  onToggleMemory,
+  captionSettings,
+  onChangeCaptionSettings
 }) => {
   if (!isOpen) return null;
 
@@ -49,38 +91,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         </div>
 
         {/* Body */}
-        <div className="p-6 space-y-8">
+        <div className="p-6 space-y-8 max-h-[80vh] overflow-y-auto custom-scrollbar">
           
-          <div>
-            <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Assistant Persona</h3>
-            <div className="space-y-3">
-              {modes.map((mode) => (
-                <button
-                  key={mode.id}
-                  onClick={() => onSelectMode(mode)}
-                  className={`w-full flex items-start gap-4 p-4 rounded-2xl border transition-all ${
-                    activeMode.id === mode.id 
-                      ? 'bg-cyan-500/10 border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.1)]' 
-                      : 'bg-slate-800/40 border-transparent hover:bg-slate-800/80 hover:border-white/5'
-                  }`}
-                >
-                  <div className={`p-3 rounded-xl ${activeMode.id === mode.id ? 'bg-cyan-500 text-white' : 'bg-slate-700/50 text-slate-400'}`}>
-                    {mode.id === 'assistant' && <Zap className="w-5 h-5" />}
-                    {mode.id === 'tutor' && <MessageSquare className="w-5 h-5" />}
-                    {mode.id === 'negotiator' && <User className="w-5 h-5" />}
-                  </div>
-                  <div className="text-left">
-                    <div className={`font-medium mb-1 ${activeMode.id === mode.id ? 'text-cyan-400' : 'text-slate-200'}`}>
-                      {mode.name}
-                    </div>
-                    <div className="text-xs text-slate-400 leading-relaxed font-light">
-                      {mode.description}
-                    </div>
-                  </div>
-                </button>
-              ))}
-            </div>
-          </div>
+          <PersonaSettings
+            modes={modes}
+            activeMode={activeMode}
+            onSelectMode={onSelectMode}
+            onSaveCustomModes={onSaveCustomModes}
+          />
 
           <div>
             <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Voice Preference</h3>
@@ -102,6 +120,92 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
              </div>
           </div>
 
+          <MemorySettings modes={modes} isEnabled={memoryEnabled} onToggle={onToggleMemory} />
+
+          <CaptionSettings settings={captionSettings} onChange={onChangeCaptionSettings} />
+
+          <div>
+            <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Microphone Mode</h3>
+            <div className="space-y-2">
+              {CAPTURE_MODES.map((mode) => {
+                const Icon = mode.icon;
+                const isSelected = captureMode === mode.id;
+                return (
+                  <button
+                    key={mode.id}
+                    onClick={() => onSelectCaptureMode(mode.id)}
+                    className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-all border ${
+                      isSelected
+                        ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                        : 'bg-slate-800/40 text-slate-400 border-transparent hover:bg-slate-800/60'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 shrink-0" />
+                    <div>
+                      <div className="text-sm font-medium">{mode.name}</div>
+                      <div className="text-xs text-slate-500 font-light">{mode.description}</div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Audio Devices</h3>
+            <div className="space-y-3">
+              <label className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40 border border-transparent focus-within:border-cyan-500/30">
+                <Mic className="w-4 h-4 shrink-0 text-slate-400" />
+                <select
+                  value={inputDeviceId}
+                  onChange={(e) => onSelectInputDevice(e.target.value)}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-slate-200 focus:outline-none [&>option]:bg-slate-900"
+                >
+                  <option value="">System Default Microphone</option>
+                  {inputDevices.map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className={`flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40 border border-transparent focus-within:border-cyan-500/30 ${isOutputSelectionSupported() ? '' : 'opacity-50'}`}>
+                <Volume2 className="w-4 h-4 shrink-0 text-slate-400" />
+                <select
+                  value={outputDeviceId}
+                  onChange={(e) => onSelectOutputDevice(e.target.value)}
+                  disabled={!isOutputSelectionSupported()}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-slate-200 focus:outline-none disabled:cursor-not-allowed [&>option]:bg-slate-900"
+                >
+                  <option value="">System Default Speaker</option>
+                  {outputDevices.map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+                  ))}
+                </select>
+              </label>
+              {!isOutputSelectionSupported() && (
+                <p className="text-xs text-slate-500 font-light">This browser always plays through the system default speaker.</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-semibold text-slate-500 mb-4 uppercase tracking-wider">Camera &amp; Screen Frame Rate</h3>
+            <div className="grid grid-cols-3 gap-3">
+              {VIDEO_FRAME_RATES.map((fps) => (
+                <button
+                  key={fps}
+                  onClick={() => onSelectVideoFrameRate(fps)}
+                  className={`px-3 py-2 rounded-xl text-sm transition-all border ${
+                    videoFrameRate === fps
+                      ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+                      : 'bg-slate-800/40 text-slate-400 border-transparent hover:bg-slate-800/60'
+                  }`}
+                >
+                  {fps} fps
+                </button>
+              ))}
+            </div>
+          </div>
+
         </div>
 
       </div>
@@ -0,0 +1,66 @@
+import React from 'react';
+import InteractiveTable from './InteractiveTable';
+
+// Plain text with markdown tables turned into editable tables
+const SmartContentRenderer: React.FC<{ 
+  content: string, 
+  onContentChange: (newContent: string) => void 
+}> = ({ content, onContentChange }) => {
+  const lines = content.split('\n');
+  const renderedElements: React.ReactNode[] = [];
+  let currentTextBuffer: string[] = [];
+  let tableBuffer: string[] = [];
+  let inTable = false;
+
+  const flushText = (keyPrefix: string) => {
+    if (currentTextBuffer.length > 0) {
+      renderedElements.push(
+        <div key={`${keyPrefix}-text`} className="whitespace-pre-wrap leading-relaxed mb-6 text-slate-200 font-light text-base md:text-lg tracking-wide">
+          {currentTextBuffer.join('\n')}
+        </div>
+      );
+      currentTextBuffer = [];
+    }
+  };
+
+  const flushTable = (keyPrefix: string) => {
+    if (tableBuffer.length > 0) {
+      const tableMarkdown = tableBuffer.join('\n');
+      renderedElements.push(
+        <InteractiveTable 
+          key={`${keyPrefix}-table`} 
+          rawMarkdown={tableMarkdown} 
+          onUpdate={(newTableMd) => {
+             const newFullContent = content.replace(tableMarkdown, newTableMd);
+             onContentChange(newFullContent);
+          }}
+        />
+      );
+      tableBuffer = [];
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('|') && trimmed.endsWith('|')) {
+      if (!inTable) {
+        flushText(`block-${index}`);
+        inTable = true;
+      }
+      tableBuffer.push(line);
+    } else {
+      if (inTable) {
+        flushTable(`block-${index}`);
+        inTable = false;
+      }
+      currentTextBuffer.push(line);
+    }
+  });
+
+  flushText('final');
+  flushTable('final');
+
+  return <div>{renderedElements}</div>;
+};
+
+export default SmartContentRenderer;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { CalendarPlus, CheckSquare, FileSpreadsheet, Plus, Trash2 } from 'lucide-react';
+import { StudyPlan, StudyPlanEntry } from '../types';
+import { emptyEntry, studyPlanToCsv, studyPlanToIcs } from '../utils/studyPlan';
+import { downloadTextFile } from '../utils/sessionExport';
+
+interface StudyPlanTableProps {
+  plan: StudyPlan;
+  onChange: (plan: StudyPlan) => void;
+  readOnly?: boolean;
+}
+
+type TextField = Exclude<keyof StudyPlanEntry, 'status'>;
+
+const COLUMNS: { field: TextField; label: string; placeholder: string }[] = [
+  { field: 'day', label: 'Day', placeholder: 'YYYY-MM-DD' },
+  { field: 'startTime', label: 'Start', placeholder: 'HH:MM' },
+  { field: 'endTime', label: 'End', placeholder: 'HH:MM' },
+  { field: 'subject', label: 'Subject', placeholder: '' },
+  { field: 'topic', label: 'Topic', placeholder: '' },
+];
+
+const StudyPlanTable: React.FC<StudyPlanTableProps> = ({ plan, onChange, readOnly = false }) => {
+  const done = plan.entries.filter(e => e.status === 'done').length;
+
+  const updateEntry = (index: number, changes: Partial<StudyPlanEntry>) => {
+    onChange({ ...plan, entries: plan.entries.map((e, i) => i === index ? { ...e, ...changes } : e) });
+  };
+
+  const addRow = () => onChange({ ...plan, entries: [...plan.entries, emptyEntry()] });
+
+  const deleteRow = (index: number) => onChange({ ...plan, entries: plan.entries.filter((_, i) => i !== index) });
+
+  const fileName = `study-plan-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div>
+      {plan.summary && (
+        <div className="whitespace-pre-wrap leading-relaxed mb-6 text-slate-200 font-light text-base md:text-lg tracking-wide">
+          {plan.summary}
+        </div>
+      )}
+
+      <div className="my-6 overflow-hidden rounded-2xl border border-white/10 shadow-2xl bg-[#0f1219]/60 backdrop-blur-md ring-1 ring-white/5">
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-white/10 bg-white/[0.02]">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            {done}/{plan.entries.length} done
+          </span>
+          <button
+            onClick={() => downloadTextFile(`${fileName}.ics`, studyPlanToIcs(plan), 'text/calendar')}
+            disabled={plan.entries.length === 0}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-teal-400 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+            title="Sessions with a day and start time become calendar events"
+          >
+            <CalendarPlus className="w-3.5 h-3.5" />
+            Calendar
+          </button>
+          <button
+            onClick={() => downloadTextFile(`${fileName}.csv`, studyPlanToCsv(plan), 'text/csv')}
+            disabled={plan.entries.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-teal-400 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+          >
+            <FileSpreadsheet className="w-3.5 h-3.5" />
+            CSV
+          </button>
+        </div>
+
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="bg-white/5 border-b border-white/10">
+                {COLUMNS.map(column => (
+                  <th key={column.field} className="px-5 py-4 font-semibold text-teal-400 uppercase tracking-widest text-[10px] whitespace-nowrap">
+                    {column.label}
+                  </th>
+                ))}
+                <th className="px-5 py-4 font-semibold text-teal-400 uppercase tracking-widest text-[10px] whitespace-nowrap">Status</th>
+                <th className="px-2 py-3 w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {plan.entries.map((entry, index) => (
+                <tr key={index} className="hover:bg-white/[0.03] transition-colors group">
+                  {COLUMNS.map(column => (
+                    <td key={column.field} className={`px-4 py-3 text-slate-300 ${column.field === 'startTime' || column.field === 'endTime' ? 'min-w-[80px]' : 'min-w-[120px]'}`}>
+                      <input
+                        type="text"
+                        value={entry[column.field]}
+                        placeholder={column.placeholder}
+                        readOnly={readOnly}
+                        onChange={(e) => updateEntry(index, { [column.field]: e.target.value })}
+                        className={`w-full bg-transparent border-none focus:ring-0 focus:border-b focus:border-teal-500/50 rounded-none px-2 py-1 placeholder-slate-600 transition-all font-light ${entry.status === 'done' ? 'text-slate-500' : 'text-slate-300'}`}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => updateEntry(index, { status: entry.status === 'done' ? 'todo' : 'done' })}
+                      disabled={readOnly}
+                      className="flex items-center gap-3 w-full px-2 py-1.5 rounded-lg hover:bg-white/5 transition-colors text-left group/check disabled:hover:bg-transparent"
+                    >
+                      {entry.status === 'done' ? (
+                        <div className="w-5 h-5 rounded-md bg-teal-500/20 border border-teal-500 flex items-center justify-center text-teal-400 shrink-0 shadow-[0_0_10px_rgba(45,212,191,0.2)]">
+                          <CheckSquare className="w-3.5 h-3.5" />
+                        </div>
+                      ) : (
+                        <div className="w-5 h-5 rounded-md border border-slate-500/30 group-hover/check:border-teal-500/50 shrink-0 transition-colors bg-white/[0.02]" />
+                      )}
+                      <span className={`text-sm ${entry.status === 'done' ? 'line-through text-slate-500' : 'text-slate-200'}`}>
+                        {entry.status === 'done' ? 'Done' : 'To do'}
+                      </span>
+                    </button>
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    {!readOnly && <button
+                      onClick={() => deleteRow(index)}
+                      className="p-2 text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                      title="Delete Row"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {!readOnly && <button
+          onClick={addRow}
+          className="w-full py-3 flex items-center justify-center gap-2 text-xs font-medium text-slate-400 hover:text-teal-400 hover:bg-white/5 transition-colors border-t border-white/5 uppercase tracking-wide"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Row
+        </button>}
+      </div>
+    </div>
+  );
+};
+
+export default StudyPlanTable;
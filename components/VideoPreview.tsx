@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { Camera, Monitor, X } from 'lucide-react';
+import { VideoSource } from '../types';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  source: VideoSource;
+  onStop: () => void;
+}
+
+const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, source, onStop }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // srcObject can't be set through a JSX prop
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative w-36 aspect-video rounded-2xl overflow-hidden border border-cyan-500/30 shadow-[0_0_20px_rgba(6,182,212,0.2)] bg-black/60 backdrop-blur-md pointer-events-auto animate-in fade-in zoom-in-95">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className={`w-full h-full object-cover ${source === VideoSource.CAMERA ? '-scale-x-100' : ''}`}
+      />
+      <div className="absolute top-1.5 left-1.5 flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-black/60 text-[9px] font-bold uppercase tracking-wider text-cyan-400">
+        {source === VideoSource.CAMERA ? <Camera className="w-2.5 h-2.5" /> : <Monitor className="w-2.5 h-2.5" />}
+        <span>Live</span>
+      </div>
+      <button
+        onClick={onStop}
+        className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-slate-300 hover:text-white hover:bg-red-500 transition-colors"
+        title="Stop Sharing"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default VideoPreview;
@@ -3,6 +3,8 @@ import React, { useEffect, useRef } from 'react';
 interface VisualizerProps {
   volume: number; // 0 to 255
   isActive: boolean;
+  isMuted?: boolean;  // Session live but the mic isn't reaching the model
+  isOnHold?: boolean; // Session live but paused in both directions
 }
 
 interface Particle {
@@ -13,7 +15,12 @@ interface Particle {
   opacity: number;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
+// RGB accents for the orb: cyan when live, red when muted, amber on hold
+const ACCENT_LIVE = '6, 182, 212';
+const ACCENT_MUTED = '248, 113, 113';
+const ACCENT_HOLD = '245, 158, 11';
+
+const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isMuted = false, isOnHold = false }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const particlesRef = useRef<Particle[]>([]);
   // Use a ref to store volume so we don't need to re-bind the animation loop on every volume change
@@ -68,12 +75,15 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
       ctx.clearRect(0, 0, width, height);
 
       const rawNormVol = currentVolume / 255;
-      const normVol = Math.pow(rawNormVol, 0.8) * 1.5;
+      // On hold the orb ignores audio and slowly pulses instead
+      const normVol = isOnHold ? (Math.sin(time * 0.03) + 1) * 0.1 : Math.pow(rawNormVol, 0.8) * 1.5;
       const activeScale = isActive ? 1 + normVol : 1;
+      const accent = isOnHold ? ACCENT_HOLD : isMuted ? ACCENT_MUTED : ACCENT_LIVE;
+      const spin = isOnHold ? 0 : time;
 
       // 1. Render Particles
       particlesRef.current.forEach((p, i) => {
-        p.angle += p.speed * (isActive ? (1 + normVol * 2) : 1);
+        if (!isOnHold) p.angle += p.speed * (isActive ? (1 + normVol * 2) : 1);
         const currentRadius = p.radius + (Math.sin(time * 0.05 + i) * 10 * normVol);
         
         const px = centerX + Math.cos(p.angle) * currentRadius;
@@ -83,7 +93,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
         ctx.arc(px, py, p.size, 0, Math.PI * 2);
         // Use cyan/purple theme colors
         ctx.fillStyle = isActive 
-          ? `rgba(6, 182, 212, ${p.opacity})` // Cyan
+          ? `rgba(${accent}, ${p.opacity})`
           : `rgba(148, 163, 184, ${p.opacity * 0.5})`; // Slate
         ctx.fill();
       });
@@ -121,15 +131,15 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
         ctx.translate(centerX, centerY);
         
         // Rotating Outer Ring
-        ctx.rotate(time * 0.01);
+        ctx.rotate(spin * 0.01);
         ctx.beginPath();
         ctx.ellipse(0, 0, 140 * activeScale, 130 * activeScale, 0, 0, Math.PI * 2);
-        ctx.strokeStyle = `rgba(6, 182, 212, ${0.3 + normVol * 0.3})`;
+        ctx.strokeStyle = `rgba(${accent}, ${0.3 + normVol * 0.3})`;
         ctx.lineWidth = 1.5;
         ctx.stroke();
 
         // Counter-Rotating Inner Ring
-        ctx.rotate(-time * 0.03);
+        ctx.rotate(-spin * 0.03);
         ctx.beginPath();
         ctx.arc(0, 0, 100 + (normVol * 50), 0, Math.PI * 2);
         ctx.strokeStyle = `rgba(168, 85, 247, ${0.4 + normVol * 0.4})`; // Purple
@@ -142,9 +152,9 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
         // Central Glow (Additive Blending)
         const glowRadius = 50 + (normVol * 80);
         const gradient = ctx.createRadialGradient(centerX, centerY, 10, centerX, centerY, glowRadius);
-        gradient.addColorStop(0, 'rgba(6, 182, 212, 0.8)'); 
+        gradient.addColorStop(0, `rgba(${accent}, 0.8)`); 
         gradient.addColorStop(0.5, 'rgba(147, 51, 234, 0.4)'); 
-        gradient.addColorStop(1, 'rgba(6, 182, 212, 0)'); 
+        gradient.addColorStop(1, `rgba(${accent}, 0)`); 
         
         ctx.globalCompositeOperation = 'lighter';
         ctx.fillStyle = gradient;
@@ -159,7 +169,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
 
         ctx.globalCompositeOperation = 'source-over';
         ctx.fillStyle = '#ffffff';
-        ctx.shadowColor = '#22d3ee';
+        ctx.shadowColor = `rgb(${accent})`;
         ctx.shadowBlur = 30;
         
         ctx.beginPath();
@@ -175,7 +185,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive }) => {
     render();
 
     return () => cancelAnimationFrame(animationId);
-  }, [isActive]); // Removed 'volume' from dependency array to prevent re-binding loop
+  }, [isActive, isMuted, isOnHold]); // Removed 'volume' from dependency array to prevent re-binding loop
 
   return (
     <canvas 
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * Lists audio inputs and outputs and keeps the lists current as devices are plugged in or removed.
+ * The browser's "default" and "communications" pseudo-devices are left out; '' stands for the default.
+ */
+export const useAudioDevices = () => {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const isReal = (d: MediaDeviceInfo) => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications';
+      setInputs(devices.filter(d => d.kind === 'audioinput' && isReal(d)));
+      setOutputs(devices.filter(d => d.kind === 'audiooutput' && isReal(d)));
+    } catch (e) {
+      console.warn("Could not list audio devices", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, [refresh]);
+
+  return { inputs, outputs, refresh };
+};
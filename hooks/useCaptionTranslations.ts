@@ -0,0 +1,60 @@
+import { useState, useRef, useEffect } from 'react';
+import { TranscriptMessage } from '../types';
+import { translateText } from '../utils/genai';
+import { CaptionTranslationSettings } from '../utils/captions';
+
+interface CachedTranslation {
+  source: string; // Text that was translated, so an edited message is translated again
+  text: string;
+}
+
+/**
+ * Translations of finished transcript messages into the caption language, keyed by message id.
+ * Each message is translated once it stops being partial; results are cached per language for
+ * the lifetime of the page, so switching back and forth doesn't translate again.
+ */
+export const useCaptionTranslations = (messages: TranscriptMessage[], settings: CaptionTranslationSettings) => {
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const cacheRef = useRef<Map<string, CachedTranslation>>(new Map());
+  const pendingRef = useRef<Set<string>>(new Set());
+  const failedRef = useRef<Set<string>>(new Set()); // Not retried, the transcript re-renders too often
+
+  const { enabled, language } = settings;
+  const languageRef = useRef(language);
+
+  useEffect(() => {
+    languageRef.current = language;
+    if (!enabled) return;
+    const cacheKey = (id: string) => `${language}:${id}`;
+
+    // Show what is already cached for this language straight away
+    const visible: Record<string, string> = {};
+    messages.forEach(m => {
+      const cached = cacheRef.current.get(cacheKey(m.id));
+      if (cached && cached.source === m.text) visible[m.id] = cached.text;
+    });
+    setTranslations(visible);
+
+    messages
+      .filter(m => !m.isPartial && !m.toolName && m.text.trim())
+      .forEach(message => {
+        const key = cacheKey(message.id);
+        const cached = cacheRef.current.get(key);
+        if ((cached && cached.source === message.text) || pendingRef.current.has(key) || failedRef.current.has(key)) return;
+
+        pendingRef.current.add(key);
+        translateText(message.text, language)
+          .then(text => {
+            cacheRef.current.set(key, { source: message.text, text });
+            if (languageRef.current === language) setTranslations(prev => ({ ...prev, [message.id]: text }));
+          })
+          .catch(e => {
+            failedRef.current.add(key);
+            console.warn("Caption translation failed", e);
+          })
+          .finally(() => pendingRef.current.delete(key));
+      });
+  }, [messages, enabled, language]);
+
+  return enabled ? translations : {};
+};
@@ -0,0 +1,262 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { LiveSessionOptions, useLiveGemini } from './useLiveGemini';
+import { ConnectionState, LiveSessionRecord, ModeConfig, NegotiationScenario } from '../types';
+import { runNegotiationDebrief } from '../utils/genai';
+import { debriefNegotiation, TIME_UP_PROMPT } from '../utils/negotiation';
+import { createFakeLiveTransport, fakeMessages, FakeLiveStep, FakeLiveTransport, tonePcmChunk } from '../utils/fakeLiveTransport';
+
+vi.mock('../utils/genai', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/genai')>(),
+  runNegotiationDebrief: vi.fn(async () => ({ score: 50 })),
+}));
+
+const MODE: ModeConfig = {
+  id: 'test',
+  name: 'Test',
+  description: 'Test persona',
+  systemInstruction: 'You are a test assistant.',
+  voiceName: 'Puck',
+};
+
+// --- Browser audio stand-ins ---
+// jsdom has no Web Audio or getUserMedia; these are just enough for the hook's graph to be built.
+
+const fakeParam = (value: number = 1) => ({
+  value,
+  setValueAtTime: vi.fn(),
+  linearRampToValueAtTime: vi.fn(),
+  cancelScheduledValues: vi.fn(),
+});
+
+const fakeNode = <T extends object>(extra: T) => ({ connect: vi.fn(), disconnect: vi.fn(), ...extra });
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  sampleRate: number;
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  destination = fakeNode({});
+  sources: { start: (when: number) => void; startedAt: number }[] = [];
+
+  constructor(options: AudioContextOptions = {}) {
+    this.sampleRate = options.sampleRate || 48000;
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain = () => fakeNode({ gain: fakeParam() });
+  createDynamicsCompressor = () => fakeNode({
+    threshold: fakeParam(), knee: fakeParam(), ratio: fakeParam(), attack: fakeParam(), release: fakeParam(),
+  });
+  createAnalyser = () => fakeNode({ fftSize: 2048, smoothingTimeConstant: 0.8, frequencyBinCount: 16, getByteFrequencyData: vi.fn() });
+  createMediaStreamSource = () => fakeNode({});
+  createScriptProcessor = () => fakeNode({ onaudioprocess: null });
+
+  createBuffer = (channels: number, length: number, sampleRate: number) => {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { length, sampleRate, duration: length / sampleRate, numberOfChannels: channels, getChannelData: (c: number) => data[c] };
+  };
+
+  createBufferSource = () => {
+    const source = fakeNode({
+      buffer: null,
+      onended: null,
+      startedAt: -1,
+      start: (when: number) => { source.startedAt = when; },
+      stop: vi.fn(),
+    });
+    this.sources.push(source);
+    return source;
+  };
+
+  resume = async () => { this.state = 'running'; };
+  suspend = async () => { this.state = 'suspended'; };
+  close = async () => { this.state = 'closed'; };
+}
+
+const fakeMicStream = () => {
+  const track = { getSettings: () => ({ sampleRate: 48000 }), stop: vi.fn(), onended: null };
+  return { getTracks: () => [track], getAudioTracks: () => [track] };
+};
+
+// Output context, created first on connect
+const outputContext = () => FakeAudioContext.instances[0];
+
+const renderLive = (transport: FakeLiveTransport, options: LiveSessionOptions = {}) =>
+  renderHook(() => useLiveGemini(MODE, 'Puck', { ...options, transport }));
+
+const connectTo = async (script: FakeLiveStep[] | ((connection: number) => FakeLiveStep[]), options?: LiveSessionOptions) => {
+  const transport = createFakeLiveTransport({ script });
+  const hook = renderLive(transport, options);
+  await act(() => hook.result.current.connect());
+  await waitFor(() => expect(hook.result.current.connectionState).toBe(ConnectionState.CONNECTED));
+  return { transport, ...hook };
+};
+
+// Disconnects before unmounting so no reconnect timer or saved session outlives the test
+const end = async (result: { current: ReturnType<typeof useLiveGemini> }, unmount: () => void) => {
+  act(() => result.current.disconnect());
+  await waitFor(() => expect(result.current.connectionState).toBe(ConnectionState.DISCONNECTED));
+  unmount();
+};
+
+const messageSummary = (transcript: { role: string; text: string; isPartial: boolean }[]) =>
+  transcript.map(({ role, text, isPartial }) => ({ role, text, isPartial }));
+
+describe('useLiveGemini with the fake transport', () => {
+  beforeEach(() => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: vi.fn(async () => fakeMicStream()) },
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('shows the user turn and the finished reply after turnComplete', async () => {
+    const { result, transport, unmount } = await connectTo([
+      { type: 'message', message: fakeMessages.inputTranscription('What time ') },
+      { type: 'message', message: fakeMessages.inputTranscription('is it?') },
+      { type: 'message', message: fakeMessages.outputTranscription('It is ') },
+      { type: 'message', message: fakeMessages.outputTranscription('noon.') },
+    ]);
+
+    await waitFor(() => expect(result.current.transcript).toHaveLength(2));
+    expect(messageSummary(result.current.transcript)).toEqual([
+      { role: 'user', text: 'What time is it?', isPartial: false },
+      { role: 'assistant', text: 'It is noon.', isPartial: true },
+    ]);
+
+    await act(async () => transport.emit(fakeMessages.turnComplete()));
+    expect(result.current.transcript[1]).toMatchObject({ text: 'It is noon.', isPartial: false });
+    await end(result, unmount);
+  });
+
+  it('sends typed turns as complete client content', async () => {
+    const { result, transport, unmount } = await connectTo([]);
+
+    act(() => result.current.sendText('  Call me Ishmael '));
+    await waitFor(() => expect(transport.sent.some(m => m.kind === 'clientContent')).toBe(true));
+    expect(transport.sent.find(m => m.kind === 'clientContent')?.params).toEqual({
+      turns: [{ role: 'user', parts: [{ text: 'Call me Ishmael' }] }],
+      turnComplete: true,
+    });
+    expect(result.current.transcript).toHaveLength(1);
+    expect(result.current.transcript[0]).toMatchObject({ role: 'user', text: 'Call me Ishmael', isTyped: true });
+    await end(result, unmount);
+  });
+
+  it('stops extending an interrupted reply and starts the next one fresh', async () => {
+    const { result, transport, unmount } = await connectTo([
+      { type: 'message', message: fakeMessages.outputTranscription('Once upon a time') },
+      { type: 'message', message: fakeMessages.interrupted() },
+      { type: 'message', message: fakeMessages.outputTranscription('Sure.') },
+    ]);
+
+    await waitFor(() => expect(result.current.transcript).toHaveLength(2));
+    expect(messageSummary(result.current.transcript)).toEqual([
+      { role: 'assistant', text: 'Once upon a time', isPartial: false },
+      { role: 'assistant', text: 'Sure.', isPartial: true },
+    ]);
+    await end(result, unmount);
+  });
+
+  it('sends prompts to the model without adding them to the transcript', async () => {
+    const { result, transport, unmount } = await connectTo([]);
+
+    act(() => result.current.sendPrompt('Next phrase, please say it for me: "Bonjour"'));
+    await waitFor(() => expect(transport.sent.some(m => m.kind === 'clientContent')).toBe(true));
+    expect(transport.sent.find(m => m.kind === 'clientContent')?.params).toEqual({
+      turns: [{ role: 'user', parts: [{ text: 'Next phrase, please say it for me: "Bonjour"' }] }],
+      turnComplete: true,
+    });
+    expect(result.current.transcript).toEqual([]);
+    await end(result, unmount);
+  });
+
+  it('keeps the time-up prompt out of the saved session and the debrief input', async () => {
+    const scenario: NegotiationScenario = {
+      id: 'test', name: 'Test', userRole: 'buyer', counterpartRole: 'Vendor', product: 'Licences',
+      currency: 'USD', priceFloor: 40000, priceCeiling: 60000, walkAwayPrice: 46000, timeLimitMinutes: 1,
+    };
+    const onSessionEnd = vi.fn<(session: LiveSessionRecord) => void>();
+    const { result, transport, unmount } = await connectTo([
+      { type: 'message', message: fakeMessages.inputTranscription('I can pay 40,000.') },
+      { type: 'message', message: fakeMessages.outputTranscription('I need 50,000.') },
+      { type: 'message', message: fakeMessages.turnComplete() },
+      { type: 'waitFor', input: 'clientContent' },
+      { type: 'message', message: fakeMessages.outputTranscription('Then there is no deal.') },
+      { type: 'message', message: fakeMessages.turnComplete() },
+    ], { onSessionEnd });
+
+    act(() => result.current.sendPrompt(TIME_UP_PROMPT));
+    await waitFor(() => expect(result.current.transcript).toHaveLength(3));
+    await end(result, unmount);
+
+    const session = onSessionEnd.mock.calls[0][0];
+    expect(session.messages.map(m => m.text)).toEqual(['I can pay 40,000.', 'I need 50,000.', 'Then there is no deal.']);
+
+    await debriefNegotiation(scenario, session.messages);
+    expect(vi.mocked(runNegotiationDebrief).mock.calls[0][1]).toBe(
+      'User: I can pay 40,000.\nCounterpart: I need 50,000.\nCounterpart: Then there is no deal.'
+    );
+  });
+
+  it('cuts an interrupted reply back to the audio that was played', async () => {
+    const { result, transport, unmount } = await connectTo([]);
+    const ctx = outputContext();
+
+    // Two 200ms chunks, each followed by the words spoken in it
+    for (const words of ['First part. ', 'Second part.']) {
+      const queued = ctx.sources.length;
+      await act(async () => transport.emit(fakeMessages.audio(tonePcmChunk(200))));
+      await waitFor(() => expect(ctx.sources).toHaveLength(queued + 1));
+      await act(async () => transport.emit(fakeMessages.outputTranscription(words)));
+    }
+    expect(result.current.transcript[0].text).toBe('First part. Second part.');
+
+    // The first chunk has finished playing and the second hasn't started
+    ctx.currentTime = ctx.sources[0].startedAt + 0.2;
+    await act(async () => transport.emit(fakeMessages.interrupted()));
+
+    expect(result.current.transcript).toHaveLength(1);
+    expect(result.current.transcript[0]).toMatchObject({ text: 'First part.', isPartial: false, wasInterrupted: true });
+    await end(result, unmount);
+  });
+
+  it('reconnects with the latest resumption handle after the connection drops', async () => {
+    const { result, transport, unmount } = await connectTo(connection => connection === 0 ? [
+      { type: 'message', message: fakeMessages.resumptionUpdate('handle-1') },
+      { type: 'message', message: fakeMessages.resumptionUpdate('handle-2') },
+      { type: 'message', message: fakeMessages.inputTranscription('Are you still') },
+    ] : [
+      { type: 'message', message: fakeMessages.outputTranscription('Still here.') },
+      { type: 'message', message: fakeMessages.turnComplete() },
+    ]);
+
+    act(() => transport.drop());
+    expect(result.current.connectionState).toBe(ConnectionState.RECONNECTING);
+    // The half-heard user turn is closed off rather than left dangling across the reconnect
+    expect(messageSummary(result.current.transcript)).toEqual([{ role: 'user', text: 'Are you still', isPartial: false }]);
+
+    await waitFor(() => expect(result.current.connectionState).toBe(ConnectionState.CONNECTED), { timeout: 2000 });
+    expect(transport.connections).toHaveLength(2);
+    expect(transport.connections[0].config?.sessionResumption?.handle).toBeUndefined();
+    expect(transport.connections[1].config?.sessionResumption?.handle).toBe('handle-2');
+
+    await waitFor(() => expect(result.current.transcript).toHaveLength(2));
+    expect(result.current.transcript[1]).toMatchObject({ role: 'assistant', text: 'Still here.', isPartial: false });
+    await end(result, unmount);
+  });
+});
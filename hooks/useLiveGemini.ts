@@ -1,58 +1,285 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ConnectionState, ModeConfig, TranscriptMessage } from '../types';
-import { createPcmBlob, decodeBase64, decodeAudioData, PCM_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../utils/audio';
+import { FunctionCall, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { CaptureMode, ConnectionState, LiveSessionRecord, ModeConfig, TranscriptMessage, VideoSource } from '../types';
+import { createPcmBlob, createPcmBlobFromInt16, createResamplerState, decodeBase64, decodeAudioData, GeminiAudioData, PCM_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../utils/audio';
+import { loadPcmCaptureWorklet, PCM_CAPTURE_BATCH_SIZE, PCM_CAPTURE_PROCESSOR } from '../utils/pcmWorklet';
+import { ClientLiveTool, runClientToolCall, runLiveToolCall } from '../utils/liveTools';
+import { buildLiveConnectParams } from '../utils/liveConfig';
+import { computeRms, createVadState, updateVad, VadState } from '../utils/vad';
+import { captureJpegFrame } from '../utils/video';
+import { createGeminiTransport, LiveSession, LiveTransport } from '../utils/liveTransport';
+import { applyServerMessage, initialTranscriptState, transcriptReducer, TranscriptState } from '../utils/transcript';
+import { upsertSession } from '../utils/liveSessions';
+import { createLiveMetrics, LiveMetricsEvent, LiveMetricsState, recordLiveMetric } from '../utils/liveMetrics';
+import { applyOutputDevice } from '../utils/audioDevices';
+import { rememberConversation, withMemory } from '../utils/memory';
+import { createPlaybackScheduler, PlaybackScheduler } from '../utils/playbackScheduler';
+import { buildRecordingSidecar, encodeWav, LiveRecording, loadStereoRecorderWorklet, startStereoRecorder, StereoRecorder } from '../utils/recording';
+
+// Reconnect backoff: 0.5s, 1s, 2s, 4s, 8s, then give up
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+
+// Chunks (~32ms each) held back in VAD mode and sent once speech is detected, so the first syllable survives
+const VAD_PRE_ROLL_CHUNKS = 10;
+
+const NO_CLIENT_TOOLS: ClientLiveTool[] = [];
+
+export interface LiveSessionOptions {
+  captureMode?: CaptureMode;
+  videoFrameRate?: number; // Frames per second sent while camera or screen sharing is on
+  transport?: LiveTransport; // Defaults to the real Gemini Live API
+  inputDeviceId?: string;    // '' or undefined for the system default; can change mid-session
+  outputDeviceId?: string;   // Applied with AudioContext.setSinkId where supported
+  memoryEnabled?: boolean;   // Summarise each session into the mode's memory and recall it on connect
+  extraInstruction?: string; // Appended to the persona's system instruction on connect
+  clientTools?: ClientLiveTool[]; // Functions the model can call that the app answers itself
+  onSessionEnd?: (session: LiveSessionRecord) => void; // Gets the saved record once the session is over
+}
+
+export const useLiveGemini = (activeMode: ModeConfig, voiceName: string, options: LiveSessionOptions = {}) => {
+  const { captureMode = CaptureMode.CONTINUOUS, videoFrameRate = 1, transport, inputDeviceId = '', outputDeviceId = '', memoryEnabled = false, extraInstruction = '', clientTools = NO_CLIENT_TOOLS, onSessionEnd } = options;
 
-export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [volume, setVolume] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   const [transcript, setTranscript] = useState<TranscriptMessage[]>([]);
+  const [isTalking, setIsTalking] = useState<boolean>(false);
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+  const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recording, setRecording] = useState<LiveRecording | null>(null);
+  const [metrics, setMetrics] = useState<LiveMetricsState | null>(null);
+  const [isMuted, setIsMuted] = useState<boolean>(false);
+  const [isOnHold, setIsOnHold] = useState<boolean>(false);
 
   // Audio Context Refs
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const processorRef = useRef<AudioWorkletNode | ScriptProcessorNode | null>(null);
+  const hasCaptureWorkletRef = useRef<boolean>(false);
   const outputNodeRef = useRef<GainNode | null>(null);
-  
+
   // Audio Processing Nodes (New)
   const compressorRef = useRef<DynamicsCompressorNode | null>(null);
-  
+
   // Analyzers for Visualizer
   const inputAnalyzerRef = useRef<AnalyserNode | null>(null);
   const outputAnalyzerRef = useRef<AnalyserNode | null>(null);
-  
+
   // Playback State
-  const nextStartTimeRef = useRef<number>(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  
+  const schedulerRef = useRef<PlaybackScheduler | null>(null);
+  // Where in the turn's audio each output transcription fragment arrived, so an interruption
+  // can cut the text back to what was actually heard
+  const outputMarksRef = useRef<{ audioMs: number; chars: number }[]>([]);
+
   // API Session
-  const sessionRef = useRef<Promise<any> | null>(null);
+  const sessionRef = useRef<Promise<LiveSession> | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
+  // Reconnect State
+  // Every opened session gets a generation number; callbacks from an older generation are ignored.
+  const sessionGenerationRef = useRef<number>(0);
+  const hasOpenedRef = useRef<boolean>(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Capture Mode State
+  // The mic pipeline outlives renders, so it reads the mode through a ref
+  const captureModeRef = useRef<CaptureMode>(captureMode);
+  const isTalkingRef = useRef<boolean>(false);
+  const vadStateRef = useRef<VadState>(createVadState());
+  const preRollRef = useRef<GeminiAudioData[]>([]);
+
+  useEffect(() => {
+    captureModeRef.current = captureMode;
+  }, [captureMode]);
+
+  // Mute / Hold State
+  // Muted: the mic stops reaching the model. On hold: muted, and assistant playback and video are paused too.
+  const isMutedRef = useRef<boolean>(false);
+  const isOnHoldRef = useRef<boolean>(false);
+
+  // Device Selection State
+  const inputDeviceIdRef = useRef<string>(inputDeviceId);
+  const outputDeviceIdRef = useRef<string>(outputDeviceId);
+  const openedInputDeviceRef = useRef<string | null>(null); // Device the current mic stream was opened with
+  const micSwitchRef = useRef<Promise<void>>(Promise.resolve()); // Last queued microphone switch
+
+  // Video Sharing State
+  const videoStreamRef = useRef<MediaStream | null>(null);
+  const videoElementRef = useRef<HTMLVideoElement | null>(null);
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Recording State
+  const recorderRef = useRef<StereoRecorder | null>(null);
+  const recordingInfoRef = useRef<{ startedAt: number; fileName: string } | null>(null);
+  const hasRecorderWorkletRef = useRef<boolean | null>(null); // null until loaded on the current output context
+
+  // Read when a session ends, which may be long after the render that started it
+  const memoryEnabledRef = useRef<boolean>(memoryEnabled);
+  useEffect(() => {
+    memoryEnabledRef.current = memoryEnabled;
+  }, [memoryEnabled]);
+
+  // Instruction is read on (re)connect; tools are looked up per call so handlers see current state
+  const extraInstructionRef = useRef<string>(extraInstruction);
+  const clientToolsRef = useRef<ClientLiveTool[]>(clientTools);
+  useEffect(() => {
+    extraInstructionRef.current = extraInstruction;
+    clientToolsRef.current = clientTools;
+  }, [extraInstruction, clientTools]);
+
+  const onSessionEndRef = useRef(onSessionEnd);
+  useEffect(() => {
+    onSessionEndRef.current = onSessionEnd;
+  }, [onSessionEnd]);
+
+  // Saved Session State
+  // The transcript accumulates across sessions; firstMessage marks where this session's part starts
+  const savedSessionRef = useRef<{ record: LiveSessionRecord; firstMessage: number; savedCount: number } | null>(null);
+
+  // Function calls the server asked us to drop while they were still running
+  const cancelledToolCallsRef = useRef<Set<string>>(new Set());
+
   // Transcription State
-  const currentInputTransRef = useRef<string>("");
-  const currentOutputTransRef = useRef<string>("");
+  // Buffers for the turn in progress live next to the messages; see utils/transcript.ts
+  const transcriptStateRef = useRef<TranscriptState>(initialTranscriptState);
 
-  const cleanup = useCallback(() => {
-    // Stop all active sources
-    activeSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) { /* ignore */ }
+  const updateTranscript = useCallback((update: (state: TranscriptState) => TranscriptState) => {
+    transcriptStateRef.current = update(transcriptStateRef.current);
+    setTranscript(transcriptStateRef.current.messages);
+  }, []);
+
+  // Diagnostics State
+  // Kept after disconnect so the last session's stats can still be read and exported
+  const metricsRef = useRef<LiveMetricsState | null>(null);
+
+  const recordMetric = useCallback((event: LiveMetricsEvent, now: number = performance.now()) => {
+    if (!metricsRef.current) return;
+    metricsRef.current = recordLiveMetric(metricsRef.current, event, now);
+    setMetrics(metricsRef.current);
+  }, []);
+
+  const stopVideo = useCallback(() => {
+    if (frameTimerRef.current) {
+      clearInterval(frameTimerRef.current);
+      frameTimerRef.current = null;
+    }
+    if (videoStreamRef.current) {
+      videoStreamRef.current.getTracks().forEach(track => track.stop());
+      videoStreamRef.current = null;
+    }
+    if (videoElementRef.current) {
+      videoElementRef.current.srcObject = null;
+      videoElementRef.current = null;
+    }
+    setVideoSource(null);
+    setVideoStream(null);
+  }, []);
+
+  const clearRecording = useCallback(() => {
+    setRecording(prev => {
+      if (prev) {
+        URL.revokeObjectURL(prev.audioUrl);
+        URL.revokeObjectURL(prev.transcriptUrl);
+      }
+      return null;
     });
-    activeSourcesRef.current.clear();
+  }, []);
+
+  // Stops the recorder (if running) and turns what it captured into downloadable files
+  const finishRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    const info = recordingInfoRef.current;
+    recorderRef.current = null;
+    recordingInfoRef.current = null;
+    setIsRecording(false);
+    if (!recorder || !info) return;
+
+    const chunks = recorder.stop();
+    const frames = chunks.reduce((total, chunk) => total + chunk.length, 0) / 2;
+    if (frames === 0) return;
+
+    const durationSeconds = frames / recorder.sampleRate;
+    const sidecar = buildRecordingSidecar(transcriptStateRef.current.messages, info.startedAt, durationSeconds, recorder.sampleRate);
+    const audioUrl = URL.createObjectURL(encodeWav(chunks, recorder.sampleRate, 2));
+    const transcriptUrl = URL.createObjectURL(new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' }));
 
-    // Close microphone stream
+    clearRecording();
+    setRecording({ audioUrl, transcriptUrl, fileName: info.fileName, durationSeconds });
+  }, [clearRecording]);
+
+  // Tears down the mic stream and the input side of the graph; the session and playback are untouched
+  const closeMicrophone = useCallback(() => {
     if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
       streamRef.current = null;
     }
-
-    // Close AudioContexts
+    if (processorRef.current && 'port' in processorRef.current) {
+      processorRef.current.port.onmessage = null;
+    }
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    inputSourceRef.current?.disconnect();
+    inputSourceRef.current = null;
     if (inputAudioContextRef.current) {
       inputAudioContextRef.current.close();
       inputAudioContextRef.current = null;
     }
+    inputAnalyzerRef.current = null;
+    hasCaptureWorkletRef.current = false;
+    openedInputDeviceRef.current = null;
+  }, []);
+
+  // Writes the current session's messages to localStorage once it has any
+  const persistSession = useCallback((): LiveSessionRecord | null => {
+    const saved = savedSessionRef.current;
+    if (!saved) return null;
+    const messages = transcriptStateRef.current.messages.slice(saved.firstMessage);
+    if (messages.length === 0) return null;
+    saved.savedCount = messages.filter(m => !m.isPartial).length;
+    const record = { ...saved.record, endedAt: Date.now(), messages };
+    upsertSession(record);
+    return record;
+  }, []);
+
+  const cleanup = useCallback(() => {
+    // Invalidate any session still in flight and cancel pending reconnects
+    sessionGenerationRef.current++;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
+    // Stop all active sources
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    outputMarksRef.current = [];
+
+    stopVideo();
+
+    // Close out the transcript before the recording sidecar is built from it
+    updateTranscript(state => transcriptReducer(state, { type: 'finalize' }));
+    finishRecording();
+    hasRecorderWorkletRef.current = null;
+    const finished = persistSession();
+    if (finished && memoryEnabledRef.current) {
+      // Runs in the background; a session started before it finishes still gets the previous memory
+      rememberConversation(finished.modeId, finished.messages);
+    }
+    if (finished) onSessionEndRef.current?.(finished);
+    savedSessionRef.current = null;
+
+    closeMicrophone();
+
     if (outputAudioContextRef.current) {
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
@@ -62,14 +289,409 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
     setConnectionState(ConnectionState.DISCONNECTED);
     setVolume(0);
     sessionRef.current = null;
-    currentInputTransRef.current = "";
-    currentOutputTransRef.current = "";
-    nextStartTimeRef.current = 0;
+    hasOpenedRef.current = false;
+    resumptionHandleRef.current = null;
+    reconnectAttemptsRef.current = 0;
+    cancelledToolCallsRef.current.clear();
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    isMutedRef.current = false;
+    setIsMuted(false);
+    isOnHoldRef.current = false;
+    setIsOnHold(false);
+    vadStateRef.current = createVadState();
+    preRollRef.current = [];
+  }, [stopVideo, closeMicrophone, updateTranscript, finishRecording, persistSession]);
+
+  const sendRealtimeInput = useCallback((params: LiveSendRealtimeInputParameters) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.then(session => {
+      try {
+        session.sendRealtimeInput(params);
+      } catch (e) {
+        // Ignore send errors during shutdown
+      }
+    }).catch(() => { /* Session failed to open; reconnect logic handles it */ });
   }, []);
 
+  // Sends activityStart/activityEnd on transitions (push-to-talk and local VAD modes)
+  const setActivity = useCallback((active: boolean) => {
+    if (isTalkingRef.current === active) return;
+    isTalkingRef.current = active;
+    setIsTalking(active);
+    sendRealtimeInput(active ? { activityStart: {} } : { activityEnd: {} });
+    if (!active) recordMetric({ type: 'speechEnd', source: captureModeRef.current === CaptureMode.VAD ? 'vad' : 'push-to-talk' });
+  }, [sendRealtimeInput, recordMetric]);
+
+  // Decides per captured chunk whether it goes to the server, depending on the capture mode
+  const handleCapturedAudio = useCallback((pcmBlob: GeminiAudioData, rms: number, durationMs: number) => {
+    if (isMutedRef.current || isOnHoldRef.current) {
+      // Server-side turn detection keeps hearing a steady stream, just an empty one
+      if (captureModeRef.current === CaptureMode.CONTINUOUS) {
+        sendRealtimeInput({ media: createPcmBlobFromInt16(new Int16Array(Math.round(durationMs * PCM_SAMPLE_RATE / 1000))) });
+      }
+      return;
+    }
+
+    switch (captureModeRef.current) {
+      case CaptureMode.PUSH_TO_TALK:
+        if (!isTalkingRef.current) return;
+        break;
+      case CaptureMode.VAD: {
+        const vad = updateVad(vadStateRef.current, rms, durationMs);
+        vadStateRef.current = vad;
+        if (!vad.speaking) {
+          if (isTalkingRef.current) {
+            sendRealtimeInput({ media: pcmBlob });
+            setActivity(false);
+            return;
+          }
+          preRollRef.current.push(pcmBlob);
+          if (preRollRef.current.length > VAD_PRE_ROLL_CHUNKS) preRollRef.current.shift();
+          return;
+        }
+        if (!isTalkingRef.current) {
+          setActivity(true);
+          preRollRef.current.forEach(chunk => sendRealtimeInput({ media: chunk }));
+          preRollRef.current = [];
+        }
+        break;
+      }
+    }
+    sendRealtimeInput({ media: pcmBlob });
+  }, [sendRealtimeInput, setActivity]);
+
+  // Streams microphone audio into whichever session sessionRef currently points at,
+  // so the pipeline survives reconnects untouched.
+  const startMicPipeline = useCallback(() => {
+    if (processorRef.current) return;
+    if (!inputAudioContextRef.current || !streamRef.current || !inputAnalyzerRef.current) return;
+
+    if (inputAudioContextRef.current.state === 'suspended') {
+      inputAudioContextRef.current.resume();
+    }
+
+    const ctx = inputAudioContextRef.current;
+    const source = ctx.createMediaStreamSource(streamRef.current);
+    inputSourceRef.current = source;
+    source.connect(inputAnalyzerRef.current);
+
+    let processor: AudioWorkletNode | ScriptProcessorNode;
+    if (hasCaptureWorkletRef.current) {
+      // Float32 -> Int16 conversion and batching happen on the audio thread
+      const workletNode = new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [1],
+        processorOptions: { batchSize: PCM_CAPTURE_BATCH_SIZE, targetRate: PCM_SAMPLE_RATE },
+      });
+      workletNode.port.onmessage = (e: MessageEvent<Int16Array>) => {
+        const pcm = e.data;
+        handleCapturedAudio(createPcmBlobFromInt16(pcm), computeRms(pcm), pcm.length / PCM_SAMPLE_RATE * 1000);
+      };
+      processor = workletNode;
+    } else {
+      // Legacy main-thread capture, only used when AudioWorklet is unavailable
+      const resampler = createResamplerState();
+      const scriptNode = ctx.createScriptProcessor(PCM_CAPTURE_BATCH_SIZE, 1, 1);
+      scriptNode.onaudioprocess = (e) => {
+        const inputData = e.inputBuffer.getChannelData(0);
+        handleCapturedAudio(
+          createPcmBlob(inputData, ctx.sampleRate, resampler),
+          computeRms(inputData),
+          inputData.length / ctx.sampleRate * 1000
+        );
+      };
+      processor = scriptNode;
+    }
+    processorRef.current = processor;
+
+    inputAnalyzerRef.current.connect(processor);
+    processor.connect(ctx.destination);
+  }, [handleCapturedAudio]);
+
+  // Marks any half-received turn as final so a dropped connection doesn't leave a dangling partial message
+  const finalizePendingTranscript = useCallback(() => {
+    updateTranscript(state => transcriptReducer(state, { type: 'finalize' }));
+  }, [updateTranscript]);
+
+  const openSession = useCallback((): Promise<LiveSession> => {
+    const generation = ++sessionGenerationRef.current;
+    const isCurrent = () => generation === sessionGenerationRef.current;
+
+    const liveTransport = transport || createGeminiTransport(process.env.API_KEY || '');
+
+    const scheduleReconnect = () => {
+      // Invalidate this session so its remaining close/error callbacks are ignored
+      sessionGenerationRef.current++;
+      finalizePendingTranscript();
+
+      if (reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        setError("Lost connection to Gemini. Please try again.");
+        cleanup();
+        return;
+      }
+
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current, RECONNECT_MAX_DELAY_MS);
+      reconnectAttemptsRef.current++;
+      setConnectionState(ConnectionState.RECONNECTING);
+      recordMetric({ type: 'reconnect' });
+
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        // Failures of the new attempt are picked up by its own callbacks
+        openSession().catch(() => {});
+      }, delay);
+    };
+
+    const handleSessionLost = () => {
+      if (!isCurrent()) return;
+      // Drops before the first successful open are surfaced as errors rather than retried
+      if (!hasOpenedRef.current) {
+        setError("Connection to Gemini failed. Please try again.");
+        cleanup();
+        return;
+      }
+      scheduleReconnect();
+    };
+
+    const handleToolCalls = async (calls: FunctionCall[]) => {
+      const outcomes = await Promise.all(calls.map(call => {
+        const clientTool = clientToolsRef.current.find(tool => tool.declaration.name === call.name);
+        return clientTool ? runClientToolCall(clientTool, call) : runLiveToolCall(call);
+      }));
+      if (!isCurrent()) return;
+
+      const completed = outcomes.filter(o => !(o.response.id && cancelledToolCallsRef.current.has(o.response.id)));
+      completed.forEach(({ response, display }) => {
+        if (!display) return;
+        updateTranscript(state => transcriptReducer(state, { type: 'toolResult', toolName: response.name || 'tool', text: display }));
+      });
+
+      if (completed.length === 0) return;
+      sessionPromise.then(session => {
+        try {
+          session.sendToolResponse({ functionResponses: completed.map(o => o.response) });
+        } catch (e) {
+          console.error('Failed to send tool response', e);
+        }
+      }).catch(() => {});
+    };
+
+    const baseInstruction = memoryEnabledRef.current ? withMemory(activeMode.systemInstruction, activeMode.id) : activeMode.systemInstruction;
+    const sessionPromise = liveTransport.connect({
+      ...buildLiveConnectParams(activeMode, {
+        voiceName,
+        captureMode,
+        systemInstruction: extraInstructionRef.current ? `${baseInstruction}\n\n${extraInstructionRef.current}` : baseInstruction,
+        resumptionHandle: resumptionHandleRef.current || undefined,
+        clientFunctions: clientToolsRef.current.map(tool => tool.declaration),
+      }),
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log('Gemini Live Session Opened');
+          hasOpenedRef.current = true;
+          reconnectAttemptsRef.current = 0;
+          setConnectionState(ConnectionState.CONNECTED);
+          startMicPipeline();
+          // A resumed session doesn't know the user was mid-utterance
+          if (isTalkingRef.current) sendRealtimeInput({ activityStart: {} });
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          // Timed on arrival, before decoding, so metrics reflect the network rather than our own work
+          const receivedAt = performance.now();
+
+          // Keep the latest resumable handle so a reconnect can pick up the same conversation
+          const resumption = message.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) {
+            resumptionHandleRef.current = resumption.newHandle;
+          }
+
+          // Server is about to drop us; switch to a fresh connection before it does
+          if (message.goAway) {
+            sessionGenerationRef.current++;
+            finalizePendingTranscript();
+            sessionPromise.then(session => {
+              try { session.close(); } catch (e) { /* ignore */ }
+            }).catch(() => {});
+            setConnectionState(ConnectionState.RECONNECTING);
+            recordMetric({ type: 'reconnect' });
+            openSession().catch(() => {});
+            return;
+          }
+
+          // Function calls run in the background so audio keeps flowing while tools work
+          if (message.toolCall?.functionCalls?.length) {
+            handleToolCalls(message.toolCall.functionCalls);
+          }
+          message.toolCallCancellation?.ids?.forEach(id => cancelledToolCallsRef.current.add(id));
+
+          if (message.serverContent?.interrupted) {
+            const heardMs = schedulerRef.current ? schedulerRef.current.stop() : Infinity;
+            const heardMark = outputMarksRef.current.filter(mark => mark.audioMs <= heardMs).pop();
+            outputMarksRef.current = [];
+            updateTranscript(state => transcriptReducer(state, { type: 'interrupted', heardChars: heardMark ? heardMark.chars : 0 }));
+            recordMetric({ type: 'interrupted' }, receivedAt);
+            return;
+          }
+
+          const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (base64Audio && outputAudioContextRef.current && schedulerRef.current) {
+             const ctx = outputAudioContextRef.current;
+             const scheduler = schedulerRef.current;
+             if (ctx.state === 'suspended' && !isOnHoldRef.current) await ctx.resume();
+
+             const audioData = decodeBase64(base64Audio);
+             const audioBuffer = await decodeAudioData(audioData, ctx, OUTPUT_SAMPLE_RATE);
+             // The session may have been torn down while decoding
+             if (!isCurrent() || schedulerRef.current !== scheduler) return;
+
+             // The scheduler buffers against jitter and reports when playback ran dry mid-turn
+             const { underrunMs } = scheduler.enqueue(audioBuffer, receivedAt);
+             recordMetric({ type: 'modelAudio', audioMs: audioBuffer.duration * 1000, behindMs: underrunMs }, receivedAt);
+          }
+
+          // Transcription Handling
+          updateTranscript(state => applyServerMessage(state, message));
+          if (message.serverContent?.outputTranscription?.text && schedulerRef.current) {
+            outputMarksRef.current.push({
+              audioMs: schedulerRef.current.receivedMs(),
+              chars: transcriptStateRef.current.pendingOutput.length,
+            });
+          }
+          if (message.serverContent?.inputTranscription?.text) {
+            recordMetric({ type: 'speechEnd', source: 'transcription' }, receivedAt);
+          }
+          if (message.serverContent?.turnComplete) {
+            schedulerRef.current?.endTurn();
+            outputMarksRef.current = [];
+            recordMetric({ type: 'turnComplete' }, receivedAt);
+          }
+        },
+        onclose: () => {
+          console.log('Session Closed');
+          handleSessionLost();
+        },
+        onerror: (err) => {
+          console.error('Session Error', err);
+          handleSessionLost();
+        }
+      }
+    });
+
+    sessionPromise.catch(() => handleSessionLost());
+
+    sessionRef.current = sessionPromise;
+    return sessionPromise;
+  }, [activeMode, voiceName, captureMode, transport, cleanup, startMicPipeline, sendRealtimeInput, finalizePendingTranscript, updateTranscript, recordMetric]);
+
+  // Opens the mic and the input side of the graph. onLost runs when the device goes away mid-session.
+  const openMicrophone = useCallback(async (deviceId: string, onLost: () => void) => {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+
+    // Get Microphone Access with Aggressive Noise Suppression
+    const constraints = (id: string): MediaTrackConstraints => ({
+      deviceId: id ? { exact: id } : undefined,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      channelCount: 1,
+      sampleRate: PCM_SAMPLE_RATE,
+    });
+    let openedDeviceId = deviceId;
+    try {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: constraints(deviceId) });
+      } catch (err: any) {
+        // The chosen device was unplugged since it was picked; use the default instead
+        if (!deviceId || err.name !== 'OverconstrainedError') throw err;
+        openedDeviceId = '';
+        stream = await navigator.mediaDevices.getUserMedia({ audio: constraints('') });
+      }
+      streamRef.current = stream;
+    } catch (err: any) {
+      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+        throw new Error("Microphone access denied. Please allow permissions in your browser settings.");
+      } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
+        throw new Error("No microphone found. Please check your input devices.");
+      } else {
+        throw new Error("Could not access microphone: " + err.message);
+      }
+    }
+
+    // The sampleRate constraint above is only a hint (Firefox and many Bluetooth headsets ignore it).
+    // Run the input context at the track's real rate so the graph never has to mix rates,
+    // and let the capture pipeline resample to PCM_SAMPLE_RATE.
+    const track = streamRef.current.getAudioTracks()[0];
+    try {
+      inputAudioContextRef.current = new AudioContextClass({
+        sampleRate: track?.getSettings().sampleRate,
+        latencyHint: 'interactive'
+      });
+    } catch (e) {
+      throw new Error("Could not initialize AudioContext. Your browser may not support it.");
+    }
+
+    // Input Analyzer Setup
+    inputAnalyzerRef.current = inputAudioContextRef.current.createAnalyser();
+    inputAnalyzerRef.current.fftSize = 64;
+    inputAnalyzerRef.current.smoothingTimeConstant = 0.3;
+
+    // Register the off-main-thread capture processor before the mic starts flowing
+    hasCaptureWorkletRef.current = await loadPcmCaptureWorklet(inputAudioContextRef.current);
+
+    openedInputDeviceRef.current = openedDeviceId;
+    // Fires when the device is unplugged
+    if (track) track.onended = onLost;
+  }, []);
+
+  // Swaps the microphone under a running session without reconnecting. Switches are queued
+  // so two getUserMedia streams are never opening at once.
+  const switchMicrophone = useCallback((deviceId: string): Promise<void> => {
+    const run = async () => {
+      const outputCtx = outputAudioContextRef.current;
+      if (!outputCtx) return;
+
+      closeMicrophone();
+      try {
+        await openMicrophone(deviceId, () => switchMicrophone(''));
+      } catch (err: any) {
+        console.error(err);
+        setError(err.message);
+        return;
+      }
+
+      // The session ended while the new device was opening
+      if (outputAudioContextRef.current !== outputCtx) {
+        closeMicrophone();
+        return;
+      }
+      if (hasOpenedRef.current) startMicPipeline();
+      // A running recording keeps taking the user's side from the new device
+      if (recorderRef.current && streamRef.current) recorderRef.current.setUserStream(streamRef.current);
+    };
+    micSwitchRef.current = micSwitchRef.current.then(run, run);
+    return micSwitchRef.current;
+  }, [closeMicrophone, openMicrophone, startMicPipeline]);
+
+  useEffect(() => {
+    inputDeviceIdRef.current = inputDeviceId;
+    if (openedInputDeviceRef.current !== null && openedInputDeviceRef.current !== inputDeviceId) {
+      switchMicrophone(inputDeviceId);
+    }
+  }, [inputDeviceId, switchMicrophone]);
+
+  useEffect(() => {
+    outputDeviceIdRef.current = outputDeviceId;
+    if (outputAudioContextRef.current) applyOutputDevice(outputAudioContextRef.current, outputDeviceId);
+  }, [outputDeviceId]);
+
   const connect = useCallback(async () => {
     const apiKey = process.env.API_KEY;
-    if (!apiKey) {
+    if (!apiKey && !transport) {
       setError("API Key is missing. Please check your environment configuration.");
       return;
     }
@@ -78,30 +700,24 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
       setConnectionState(ConnectionState.CONNECTING);
       setError(null);
 
-      const ai = new GoogleGenAI({ apiKey });
-      
       // Initialize Audio Contexts with Interactive Latency
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       try {
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        inputAudioContextRef.current = new AudioContextClass({ 
-          sampleRate: PCM_SAMPLE_RATE,
-          latencyHint: 'interactive' 
-        });
-        outputAudioContextRef.current = new AudioContextClass({ 
+        outputAudioContextRef.current = new AudioContextClass({
           sampleRate: OUTPUT_SAMPLE_RATE,
-          latencyHint: 'interactive' 
+          latencyHint: 'interactive'
         });
       } catch (e) {
         throw new Error("Could not initialize AudioContext. Your browser may not support it.");
       }
-      
+
       // Setup Output Pipeline with Compressor for "Crisp" Audio
       if (outputAudioContextRef.current) {
         const ctx = outputAudioContextRef.current;
-        
+
         // 1. Create Gain Node (Master Volume)
         outputNodeRef.current = ctx.createGain();
-        
+
         // 2. Create Compressor (Broadcast Quality)
         compressorRef.current = ctx.createDynamicsCompressor();
         compressorRef.current.threshold.value = -24; // Lower threshold to catch more signal
@@ -109,7 +725,7 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
         compressorRef.current.ratio.value = 12;      // High ratio for consistent levels
         compressorRef.current.attack.value = 0.003;  // Fast attack
         compressorRef.current.release.value = 0.25;  // Moderate release
-        
+
         // 3. Create Analyzer
         outputAnalyzerRef.current = ctx.createAnalyser();
         outputAnalyzerRef.current.fftSize = 256;
@@ -120,197 +736,34 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
         compressorRef.current.connect(outputAnalyzerRef.current);
         outputAnalyzerRef.current.connect(ctx.destination);
 
-        // Input Analyzer Setup
-        if (inputAudioContextRef.current) {
-            inputAnalyzerRef.current = inputAudioContextRef.current.createAnalyser();
-            inputAnalyzerRef.current.fftSize = 64; 
-            inputAnalyzerRef.current.smoothingTimeConstant = 0.3;
-        }
+        // 5. Model audio is scheduled into the gain node
+        schedulerRef.current = createPlaybackScheduler(ctx, outputNodeRef.current);
       }
 
-      // Get Microphone Access with Aggressive Noise Suppression
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          audio: { 
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            channelCount: 1,
-            sampleRate: PCM_SAMPLE_RATE,
-          } 
-        });
-        streamRef.current = stream;
-      } catch (err: any) {
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          throw new Error("Microphone access denied. Please allow permissions in your browser settings.");
-        } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
-          throw new Error("No microphone found. Please check your input devices.");
-        } else {
-          throw new Error("Could not access microphone: " + err.message);
-        }
-      }
+      // Route playback to the chosen speaker
+      if (outputDeviceIdRef.current) await applyOutputDevice(outputAudioContextRef.current, outputDeviceIdRef.current);
+      await openMicrophone(inputDeviceIdRef.current, () => switchMicrophone(''));
 
-      // Initialize Gemini Live Session
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
-          },
-          systemInstruction: { parts: [{ text: activeMode.systemInstruction }] },
-          inputAudioTranscription: {}, 
-          outputAudioTranscription: {}, 
+      const startedAt = Date.now();
+      metricsRef.current = createLiveMetrics(performance.now(), startedAt);
+      setMetrics(metricsRef.current);
+      savedSessionRef.current = {
+        record: {
+          id: startedAt.toString(),
+          modeId: activeMode.id,
+          modeName: activeMode.name,
+          voiceName,
+          captureMode,
+          startedAt,
+          endedAt: startedAt,
+          messages: [],
         },
-        callbacks: {
-          onopen: () => {
-            console.log('Gemini Live Session Opened');
-            setConnectionState(ConnectionState.CONNECTED);
-            
-            if (!inputAudioContextRef.current || !streamRef.current || !inputAnalyzerRef.current) return;
-
-            if (inputAudioContextRef.current.state === 'suspended') {
-              inputAudioContextRef.current.resume();
-            }
-
-            const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-            inputSourceRef.current = source;
-            source.connect(inputAnalyzerRef.current);
-
-            // Optimized buffer size for lower latency (512 is approx 32ms)
-            const processor = inputAudioContextRef.current.createScriptProcessor(512, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              
-              if (sessionRef.current) {
-                sessionRef.current.then(session => {
-                  try {
-                    session.sendRealtimeInput({ media: pcmBlob });
-                  } catch (e) {
-                    // Ignore send errors during shutdown
-                  }
-                });
-              }
-            };
-
-            inputAnalyzerRef.current.connect(processor);
-            processor.connect(inputAudioContextRef.current.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.interrupted) {
-              activeSourcesRef.current.forEach(src => {
-                try { src.stop(); } catch(e){}
-              });
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              currentOutputTransRef.current = ""; 
-              return;
-            }
-
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current && outputNodeRef.current) {
-               const ctx = outputAudioContextRef.current;
-               if (ctx.state === 'suspended') await ctx.resume();
-
-               const audioData = decodeBase64(base64Audio);
-               const audioBuffer = await decodeAudioData(audioData, ctx, OUTPUT_SAMPLE_RATE);
-               
-               const source = ctx.createBufferSource();
-               source.buffer = audioBuffer;
-               source.connect(outputNodeRef.current);
-               
-               const currentTime = ctx.currentTime;
-               // Catch up if we fell behind to avoid latency drift
-               if (nextStartTimeRef.current < currentTime) {
-                 nextStartTimeRef.current = currentTime;
-               }
-               
-               source.start(nextStartTimeRef.current);
-               nextStartTimeRef.current += audioBuffer.duration;
-               
-               activeSourcesRef.current.add(source);
-               source.onended = () => {
-                 activeSourcesRef.current.delete(source);
-               };
-            }
-
-            // Transcription Handling
-            const inputTrans = message.serverContent?.inputTranscription;
-            if (inputTrans) {
-              currentInputTransRef.current += inputTrans.text || "";
-            }
-
-            const outputTrans = message.serverContent?.outputTranscription;
-            if (outputTrans) {
-              // OPTIMIZATION: If the model starts speaking, assume user turn is done.
-              // Flush user text to transcript immediately so it appears BEFORE the assistant response.
-              if (currentInputTransRef.current.trim()) {
-                const userText = currentInputTransRef.current;
-                setTranscript(prev => [
-                    ...prev, 
-                    { id: Date.now().toString(), role: 'user', text: userText, isPartial: false, timestamp: Date.now() }
-                ]);
-                currentInputTransRef.current = "";
-              }
-
-              currentOutputTransRef.current += outputTrans.text || "";
-              setTranscript(prev => {
-                 const last = prev[prev.length - 1];
-                 if (last && last.role === 'assistant' && last.isPartial) {
-                   return [...prev.slice(0, -1), { ...last, text: currentOutputTransRef.current }];
-                 } else {
-                   return [...prev, {
-                       id: Date.now().toString(),
-                       role: 'assistant',
-                       text: currentOutputTransRef.current,
-                       isPartial: true,
-                       timestamp: Date.now()
-                   }];
-                 }
-              });
-            }
-
-            if (message.serverContent?.turnComplete) {
-               // Only add user message if it wasn't already flushed
-               if (currentInputTransRef.current.trim()) {
-                 const userText = currentInputTransRef.current;
-                 setTranscript(prev => [
-                     ...prev, 
-                     { id: Date.now().toString(), role: 'user', text: userText, isPartial: false, timestamp: Date.now() }
-                 ]);
-                 currentInputTransRef.current = "";
-               }
-               if (currentOutputTransRef.current) {
-                 setTranscript(prev => {
-                    const last = prev[prev.length - 1];
-                    if (last && last.role === 'assistant') {
-                      return [...prev.slice(0, -1), { ...last, isPartial: false }];
-                    }
-                    return prev;
-                 });
-                 currentOutputTransRef.current = "";
-               }
-            }
-          },
-          onclose: () => {
-            console.log('Session Closed');
-            cleanup();
-          },
-          onerror: (err) => {
-            console.error('Session Error', err);
-            if (err.message && !err.message.includes("cancelled")) {
-                 setError("Connection to Gemini failed. Please try again.");
-            }
-            cleanup();
-          }
-        }
-      });
-      
-      sessionRef.current = sessionPromise;
-      await sessionPromise;
+        firstMessage: transcriptStateRef.current.messages.length,
+        savedCount: 0,
+      };
+
+      // Initialize Gemini Live Session
+      await openSession();
 
     } catch (err: any) {
       console.error(err);
@@ -319,11 +772,13 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
       setConnectionState(ConnectionState.ERROR);
       cleanup();
     }
-  }, [activeMode, voiceName, cleanup]);
+  }, [openSession, openMicrophone, switchMicrophone, transport, cleanup, activeMode, voiceName, captureMode]);
 
   const disconnect = useCallback(() => {
+    // Invalidate first so the resulting onclose isn't treated as a dropped connection
+    sessionGenerationRef.current++;
     if (sessionRef.current) {
-        sessionRef.current.then((session: any) => {
+        sessionRef.current.then((session) => {
            if(session && typeof session.close === 'function') {
              try { session.close(); } catch(e) { }
            }
@@ -336,13 +791,171 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
     }
   }, [cleanup]);
 
+  // Samples the shared video at the configured rate and sends each frame as JPEG alongside the audio
+  const startFrameLoop = useCallback(() => {
+    if (frameTimerRef.current) clearInterval(frameTimerRef.current);
+    if (!frameCanvasRef.current) frameCanvasRef.current = document.createElement('canvas');
+
+    frameTimerRef.current = setInterval(() => {
+      const video = videoElementRef.current;
+      if (!video || !frameCanvasRef.current || isOnHoldRef.current) return;
+      const frame = captureJpegFrame(video, frameCanvasRef.current);
+      if (frame) sendRealtimeInput({ video: { data: frame, mimeType: 'image/jpeg' } });
+    }, 1000 / videoFrameRate);
+  }, [videoFrameRate, sendRealtimeInput]);
+
+  const startVideo = useCallback(async (source: VideoSource) => {
+    if (!sessionRef.current) return;
+    stopVideo();
+
+    let stream: MediaStream;
+    try {
+      stream = source === VideoSource.SCREEN
+        ? await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+        : await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+    } catch (err: any) {
+      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+        // Dismissing the screen picker lands here too; not worth an error banner
+        if (source === VideoSource.CAMERA) setError("Camera access denied. Please allow permissions in your browser settings.");
+      } else {
+        setError(`Could not start ${source === VideoSource.SCREEN ? 'screen sharing' : 'camera'}: ${err.message}`);
+      }
+      return;
+    }
+
+    // The session may have ended while the permission prompt was open
+    if (!sessionRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    // Stopping the share from the browser's own UI ends the track
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (videoStreamRef.current === stream) stopVideo();
+    });
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (e) {
+      // Frames are still decodable while paused; captureJpegFrame skips until dimensions are known
+    }
+
+    videoStreamRef.current = stream;
+    videoElementRef.current = video;
+    setVideoSource(source);
+    setVideoStream(stream);
+    startFrameLoop();
+  }, [stopVideo, startFrameLoop]);
+
+  // Pick up frame rate changes while sharing
+  useEffect(() => {
+    if (videoStreamRef.current) startFrameLoop();
+  }, [startFrameLoop]);
+
+  const sendClientTurn = useCallback((text: string) => {
+    sessionRef.current?.then(session => {
+      try {
+        session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+      } catch (e) {
+        console.error('Failed to send text turn', e);
+      }
+    }).catch(() => {});
+  }, []);
+
+  // Sends a typed user turn (URLs, code, names the recogniser mangles) into the live conversation
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || !sessionRef.current) return;
+
+    updateTranscript(state => transcriptReducer(state, { type: 'typed', text: trimmed }));
+    recordMetric({ type: 'speechEnd', source: 'typed' });
+    sendClientTurn(trimmed);
+  }, [updateTranscript, recordMetric, sendClientTurn]);
+
+  // Instructs the model on the app's behalf (next practice phrase, time is up); unlike sendText
+  // it stays out of the transcript, so saved sessions and debriefs only hold what was said
+  const sendPrompt = useCallback((text: string) => {
+    if (!text.trim() || !sessionRef.current) return;
+    sendClientTurn(text);
+  }, [sendClientTurn]);
+
+  // Records the mic (left) and the assistant after the compressor (right) until stopped or the session ends
+  const startRecording = useCallback(async () => {
+    const ctx = outputAudioContextRef.current;
+    if (recorderRef.current || !ctx || !streamRef.current || !compressorRef.current) return;
+
+    if (hasRecorderWorkletRef.current === null) {
+      hasRecorderWorkletRef.current = await loadStereoRecorderWorklet(ctx);
+    }
+    // The session may have ended while the worklet was loading
+    if (ctx !== outputAudioContextRef.current || !streamRef.current || !compressorRef.current || recorderRef.current) return;
+
+    const startedAt = Date.now();
+    const stamp = new Date(startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    recorderRef.current = startStereoRecorder(ctx, streamRef.current, compressorRef.current, hasRecorderWorkletRef.current);
+    recordingInfoRef.current = { startedAt, fileName: `flashtalk-${activeMode.id}-${stamp}` };
+    setIsRecording(true);
+  }, [activeMode]);
+
+  // Closes any open user turn so the model isn't left waiting on speech that won't come
+  const silenceMic = useCallback(() => {
+    setActivity(false);
+    vadStateRef.current = createVadState();
+    preRollRef.current = [];
+  }, [setActivity]);
+
+  const setMuted = useCallback((muted: boolean) => {
+    if (!sessionRef.current) return;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    if (muted) silenceMic();
+  }, [silenceMic]);
+
+  // Pauses the output context, which freezes queued model audio exactly where it is
+  const setOnHold = useCallback((onHold: boolean) => {
+    const ctx = outputAudioContextRef.current;
+    if (!sessionRef.current || !ctx) return;
+    isOnHoldRef.current = onHold;
+    setIsOnHold(onHold);
+    if (onHold) {
+      silenceMic();
+      ctx.suspend();
+    } else {
+      ctx.resume();
+    }
+  }, [silenceMic]);
+
+  // Push-to-talk controls; no-ops in the other capture modes
+  const startTalking = useCallback(() => {
+    if (captureModeRef.current !== CaptureMode.PUSH_TO_TALK || !sessionRef.current) return;
+    if (isMutedRef.current || isOnHoldRef.current) return;
+    setActivity(true);
+  }, [setActivity]);
+
+  const stopTalking = useCallback(() => {
+    if (captureModeRef.current !== CaptureMode.PUSH_TO_TALK) return;
+    setActivity(false);
+  }, [setActivity]);
+
+  // Save as messages complete so a reload mid-conversation doesn't lose it; streaming fragments don't trigger writes
+  useEffect(() => {
+    const saved = savedSessionRef.current;
+    if (!saved) return;
+    const completed = transcript.slice(saved.firstMessage).filter(m => !m.isPartial).length;
+    if (completed !== saved.savedCount) persistSession();
+  }, [transcript, persistSession]);
+
   useEffect(() => {
     let animationFrameId: number;
     const updateVisualizer = () => {
-      if (connectionState === ConnectionState.CONNECTED) {
+      if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING) {
         let inputVol = 0;
         let outputVol = 0;
-        if (inputAnalyzerRef.current) {
+        if (inputAnalyzerRef.current && !isMutedRef.current && !isOnHoldRef.current) {
           const dataArray = new Uint8Array(inputAnalyzerRef.current.frequencyBinCount);
           inputAnalyzerRef.current.getByteFrequencyData(dataArray);
           inputVol = dataArray.reduce((a, b) => a + b, 0) / dataArray.length;
@@ -352,7 +965,7 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
           outputAnalyzerRef.current.getByteFrequencyData(dataArray);
           outputVol = dataArray.reduce((a, b) => a + b, 0) / dataArray.length;
         }
-        setVolume(Math.max(inputVol, outputVol)); 
+        setVolume(Math.max(inputVol, outputVol));
       } else {
         setVolume(0);
       }
@@ -362,5 +975,12 @@ export const useLiveGemini = (activeMode: ModeConfig, voiceName: string) => {
     return () => cancelAnimationFrame(animationFrameId);
   }, [connectionState]);
 
-  return { connect, disconnect, connectionState, volume, error, transcript };
-};
\ No newline at end of file
+  return {
+    connect, disconnect, connectionState, volume, error, transcript, sendText, sendPrompt,
+    isTalking, startTalking, stopTalking,
+    videoSource, videoStream, startVideo, stopVideo,
+    isRecording, recording, startRecording, stopRecording: finishRecording, clearRecording,
+    metrics,
+    isMuted, isOnHold, setMuted, setOnHold,
+  };
+};
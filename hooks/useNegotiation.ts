@@ -0,0 +1,71 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { LiveSessionRecord, NegotiationDebrief, NegotiationScenario } from '../types';
+import { upsertSession } from '../utils/liveSessions';
+import { debriefNegotiation, hasNegotiationExchange, loadScenarios, saveScenarios, scenarioInstruction } from '../utils/negotiation';
+
+export interface DebriefStatus {
+  sessionId: string;
+  scenario: NegotiationScenario;
+  state: 'running' | 'done' | 'error';
+  debrief?: NegotiationDebrief;
+  error?: string;
+}
+
+/**
+ * Negotiation scenarios for live sessions. The selected scenario is compiled into the system
+ * instruction; when a session ends it is saved with the transcript and debriefed in the background.
+ */
+export const useNegotiation = () => {
+  const [scenarios, setScenarios] = useState<NegotiationScenario[]>(loadScenarios);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [debriefStatus, setDebriefStatus] = useState<DebriefStatus | null>(null);
+
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId) || null;
+
+  // The session-end callback may fire after the user has already picked another scenario
+  const activeScenarioRef = useRef<NegotiationScenario | null>(activeScenario);
+  useEffect(() => {
+    activeScenarioRef.current = activeScenario;
+  }, [activeScenario]);
+
+  const updateScenarios = useCallback((updated: NegotiationScenario[]) => {
+    setScenarios(updated);
+    saveScenarios(updated);
+  }, []);
+
+  const saveScenario = useCallback((scenario: NegotiationScenario) => {
+    const exists = scenarios.some(s => s.id === scenario.id);
+    updateScenarios(exists ? scenarios.map(s => s.id === scenario.id ? scenario : s) : [...scenarios, scenario]);
+  }, [scenarios, updateScenarios]);
+
+  const deleteScenario = useCallback((id: string) => {
+    updateScenarios(scenarios.filter(s => s.id !== id));
+    if (id === activeScenarioId) setActiveScenarioId(null);
+  }, [scenarios, activeScenarioId, updateScenarios]);
+
+  const handleSessionEnd = useCallback(async (session: LiveSessionRecord) => {
+    const scenario = activeScenarioRef.current;
+    if (!scenario) return;
+    const record: LiveSessionRecord = { ...session, scenario };
+    upsertSession(record);
+    if (!hasNegotiationExchange(session.messages)) return;
+
+    setDebriefStatus({ sessionId: session.id, scenario, state: 'running' });
+    try {
+      const debrief = await debriefNegotiation(scenario, session.messages);
+      upsertSession({ ...record, debrief });
+      setDebriefStatus({ sessionId: session.id, scenario, state: 'done', debrief });
+    } catch (e: any) {
+      console.error("Negotiation debrief failed", e);
+      setDebriefStatus({ sessionId: session.id, scenario, state: 'error', error: e.message || 'The debrief could not be generated.' });
+    }
+  }, []);
+
+  return {
+    scenarios, saveScenario, deleteScenario,
+    activeScenario, setActiveScenarioId,
+    extraInstruction: activeScenario ? scenarioInstruction(activeScenario) : '',
+    handleSessionEnd,
+    debriefStatus,
+  };
+};
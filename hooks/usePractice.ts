@@ -0,0 +1,131 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { PracticeAttempt, PracticeList, PronunciationScore, TranscriptMessage } from '../types';
+import { ClientLiveTool } from '../utils/liveTools';
+import {
+  createAttempt, loadAttempts, loadPracticeLists, parsePracticeList, parsePronunciationScore, phraseProgress,
+  practiceInstruction, samePhrase, saveAttempts, savePracticeLists, SCORE_PRONUNCIATION_DECLARATION,
+} from '../utils/practice';
+
+// What the app says to the tutor when the user picks a phrase
+export const phrasePrompt = (phrase: string) => `Next phrase, please say it for me and I'll repeat it: "${phrase}"`;
+
+/**
+ * Pronunciation practice alongside a live session. Every spoken user turn after a phrase is
+ * picked counts as an attempt and is diffed against it word by word; the tutor's own score
+ * arrives separately through the `score_pronunciation` function and is attached to the attempt.
+ */
+export const usePractice = () => {
+  const [lists, setLists] = useState<PracticeList[]>(loadPracticeLists);
+  const [attempts, setAttempts] = useState<PracticeAttempt[]>(loadAttempts);
+  const [activeListId, setActiveListId] = useState<string>(() => loadPracticeLists()[0]?.id || '');
+  const [isPracticing, setIsPracticing] = useState(false);
+  const [currentPhrase, setCurrentPhrase] = useState<string | null>(null);
+
+  const attemptsRef = useRef<PracticeAttempt[]>(attempts);
+  const phrasePickedAtRef = useRef<number>(0);
+  const consumedMessagesRef = useRef<Set<string>>(new Set());
+  // Scores can arrive before the transcription of the attempt they grade is complete
+  const pendingScoresRef = useRef<PronunciationScore[]>([]);
+
+  const activeList = lists.find(list => list.id === activeListId) || lists[0] || null;
+  const progress = useMemo(() => activeList ? phraseProgress(activeList, attempts) : [], [activeList, attempts]);
+
+  const updateAttempts = useCallback((fn: (prev: PracticeAttempt[]) => PracticeAttempt[]) => {
+    attemptsRef.current = fn(attemptsRef.current);
+    setAttempts(attemptsRef.current);
+    saveAttempts(attemptsRef.current);
+  }, []);
+
+  const updateLists = useCallback((updated: PracticeList[]) => {
+    setLists(updated);
+    savePracticeLists(updated);
+  }, []);
+
+  const takePendingScore = (phrase: string) => {
+    const index = pendingScoresRef.current.findIndex(score => samePhrase(score.phrase, phrase));
+    return index === -1 ? undefined : pendingScoresRef.current.splice(index, 1)[0];
+  };
+
+  const selectPhrase = useCallback((phrase: string | null) => {
+    setCurrentPhrase(phrase);
+    phrasePickedAtRef.current = Date.now();
+    pendingScoresRef.current = [];
+  }, []);
+
+  const observeTranscript = useCallback((messages: TranscriptMessage[]) => {
+    if (!isPracticing || !currentPhrase || !activeList) return;
+    const spoken = messages.filter(m =>
+      m.role === 'user' && !m.isPartial && !m.isTyped && !m.toolName &&
+      m.timestamp >= phrasePickedAtRef.current && !consumedMessagesRef.current.has(m.id)
+    );
+    if (spoken.length === 0) return;
+
+    const created: PracticeAttempt[] = [];
+    spoken.forEach(message => {
+      consumedMessagesRef.current.add(message.id);
+      const attempt = createAttempt(activeList.id, currentPhrase, message.text, message.timestamp);
+      // Nothing in common with the target: the user was talking to the tutor, not attempting it
+      if (attempt.accuracy === 0) return;
+      created.push({ ...attempt, score: takePendingScore(currentPhrase) });
+    });
+    if (created.length) updateAttempts(prev => [...prev, ...created]);
+  }, [isPracticing, currentPhrase, activeList, updateAttempts]);
+
+  const recordScore = useCallback((score: PronunciationScore) => {
+    const all = attemptsRef.current;
+    let index = -1;
+    for (let i = all.length - 1; i >= 0; i--) {
+      if (all[i].timestamp < phrasePickedAtRef.current) break;
+      if (!all[i].score && samePhrase(all[i].phrase, score.phrase)) { index = i; break; }
+    }
+    if (index === -1) {
+      pendingScoresRef.current.push(score);
+      return;
+    }
+    updateAttempts(prev => prev.map((attempt, i) => i === index ? { ...attempt, score } : attempt));
+  }, [updateAttempts]);
+
+  const recordScoreRef = useRef(recordScore);
+  recordScoreRef.current = recordScore;
+
+  const clientTools = useMemo<ClientLiveTool[]>(() => isPracticing ? [{
+    declaration: SCORE_PRONUNCIATION_DECLARATION,
+    run: (args) => {
+      recordScoreRef.current(parsePronunciationScore(args));
+      return { result: 'Score recorded and shown to the user.' };
+    },
+  }] : [], [isPracticing]);
+
+  const extraInstruction = isPracticing && activeList ? practiceInstruction(activeList) : '';
+
+  const importList = useCallback(async (file: File) => {
+    const list = parsePracticeList(file.name, await file.text());
+    updateLists([...lists, list]);
+    setActiveListId(list.id);
+    selectPhrase(null);
+  }, [lists, updateLists, selectPhrase]);
+
+  const deleteList = useCallback((id: string) => {
+    updateLists(lists.filter(list => list.id !== id));
+    updateAttempts(prev => prev.filter(attempt => attempt.listId !== id));
+    if (id === activeListId) selectPhrase(null);
+  }, [lists, activeListId, updateLists, updateAttempts, selectPhrase]);
+
+  const clearProgress = useCallback((listId: string) => {
+    updateAttempts(prev => prev.filter(attempt => attempt.listId !== listId));
+  }, [updateAttempts]);
+
+  const selectList = useCallback((id: string) => {
+    setActiveListId(id);
+    selectPhrase(null);
+  }, [selectPhrase]);
+
+  return {
+    lists, activeList, selectList, importList, deleteList,
+    isPracticing, setIsPracticing,
+    currentPhrase, selectPhrase,
+    attempts, progress, clearProgress,
+    observeTranscript,
+    extraInstruction, clientTools,
+  };
+};
@@ -0,0 +1,20 @@
+import { MessageCircle } from 'lucide-react';
+import { ToolDefinition } from '../types';
+import { runChatQuery } from '../utils/genai';
+
+const chat: ToolDefinition = {
+  id: 'CHAT',
+  label: 'Chat',
+  description: 'Engage in deep conversation with Gemini 3 Pro.',
+  examples: ['Explain quantum entanglement', 'Help me plan a weekend in Lisbon'],
+  icon: MessageCircle,
+  color: 'text-indigo-400',
+  bg: 'bg-indigo-400',
+  border: 'border-indigo-400',
+  inputs: ['text', 'audio'],
+  conversation: true,
+  speech: 'short',
+  run: async (input, stream) => ({ text: await runChatQuery(input.text, input.history, stream) }),
+};
+
+export default chat;
@@ -0,0 +1,19 @@
+import { Zap } from 'lucide-react';
+import { ToolDefinition } from '../types';
+import { runFastQuery } from '../utils/genai';
+
+const fast: ToolDefinition = {
+  id: 'FAST',
+  label: 'Flash',
+  description: 'Lightning fast answers for everyday questions.',
+  examples: ['Convert 72°F to Celsius', 'Another word for "important"'],
+  icon: Zap,
+  color: 'text-yellow-400',
+  bg: 'bg-yellow-400',
+  border: 'border-yellow-400',
+  inputs: ['text', 'audio'],
+  speech: 'short',
+  run: async (input, stream) => ({ text: await runFastQuery(input.text, stream) }),
+};
+
+export default fast;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { ToolDefinition, ToolResultProps } from '../types';
+import { runMapsQuery } from '../utils/genai';
+import SmartContentRenderer from '../components/SmartContentRenderer';
+import GroundingSources from '../components/GroundingSources';
+
+const MapsResult: React.FC<ToolResultProps> = ({ content, grounding, onContentChange }) => (
+  <>
+    <SmartContentRenderer content={content} onContentChange={onContentChange} />
+    <GroundingSources chunks={grounding} icon={MapPin} />
+  </>
+);
+
+const maps: ToolDefinition = {
+  id: 'MAPS',
+  label: 'Maps',
+  description: 'Find places, restaurants, and routes nearby.',
+  examples: ['Coffee shops open now near me', 'Best ramen within walking distance'],
+  icon: MapPin,
+  color: 'text-emerald-400',
+  bg: 'bg-emerald-400',
+  border: 'border-emerald-400',
+  inputs: ['text', 'audio', 'location'],
+  speech: 'short',
+  run: async (input, stream) => {
+    const { text, chunks } = await runMapsQuery(input.text, input.location, stream);
+    return { text, grounding: chunks };
+  },
+  Result: MapsResult,
+};
+
+export default maps;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { ToolDefinition, ToolResultProps } from '../types';
+import { runPlannerQuery } from '../utils/genai';
+import { parseStudyPlan, serializeStudyPlan } from '../utils/studyPlan';
+import SmartContentRenderer from '../components/SmartContentRenderer';
+import StudyPlanTable from '../components/StudyPlanTable';
+
+// Plans saved before the planner returned JSON are markdown tables
+const PlannerResult: React.FC<ToolResultProps> = ({ content, onContentChange, readOnly }) => {
+  const plan = parseStudyPlan(content);
+  if (!plan) return <SmartContentRenderer content={content} onContentChange={onContentChange} />;
+  return <StudyPlanTable plan={plan} readOnly={readOnly} onChange={(updated) => onContentChange(serializeStudyPlan(updated))} />;
+};
+
+const planner: ToolDefinition = {
+  id: 'PLANNER',
+  label: 'Plan',
+  description: 'Generate structured Notion-style study plans.',
+  placeholder: 'Describe your goals (e.g. Study Physics finals)...',
+  examples: ['Create a study plan for History', 'Two weeks to prepare for my Physics final'],
+  icon: Calendar,
+  color: 'text-teal-400',
+  bg: 'bg-teal-400',
+  border: 'border-teal-400',
+  inputs: ['text', 'audio'],
+  speech: 'never', // Tables make no sense read aloud
+  run: async (input, stream) => {
+    const text = await runPlannerQuery(input.text, stream);
+    // A stopped stream keeps the sessions that arrived complete
+    const plan = parseStudyPlan(text);
+    if (!plan) return { text };
+    return { text: plan.summary || plan.entries.length ? serializeStudyPlan(plan) : '' };
+  },
+  plainText: (content) => parseStudyPlan(content)?.summary ?? content,
+  Result: PlannerResult,
+};
+
+export default planner;
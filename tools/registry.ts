@@ -0,0 +1,30 @@
+import { ToolDefinition, ToolInputKind } from '../types';
+import fast from './fast';
+import chat from './chat';
+import thinking from './thinking';
+import vision from './vision';
+import planner from './planner';
+import search from './search';
+import maps from './maps';
+
+// Answers shorter than this are read aloud by tools with the 'short' speech policy
+export const SHORT_ANSWER_LENGTH = 150;
+
+/**
+ * Every Smart Tool, in tab order. To add one, create a file in this folder exporting a
+ * ToolDefinition and list it here; components/SmartTools.tsx needs no changes.
+ */
+export const TOOLS: ToolDefinition[] = [fast, chat, thinking, vision, planner, search, maps];
+
+// Unknown ids (e.g. history from a removed tool) fall back to the first tool
+export const getTool = (id: string): ToolDefinition => TOOLS.find(t => t.id === id) || TOOLS[0];
+
+export const acceptsInput = (tool: ToolDefinition, kind: ToolInputKind) => tool.inputs.includes(kind);
+
+export const plainTextOf = (tool: ToolDefinition, content: string) => tool.plainText ? tool.plainText(content) : content;
+
+export function shouldSpeak(tool: ToolDefinition, content: string): boolean {
+  const text = plainTextOf(tool, content);
+  if (!text || tool.speech === 'never') return false;
+  return tool.speech === 'always' || text.length < SHORT_ANSWER_LENGTH;
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Search } from 'lucide-react';
+import { ToolDefinition, ToolResultProps } from '../types';
+import { runSearchQuery } from '../utils/genai';
+import SmartContentRenderer from '../components/SmartContentRenderer';
+import GroundingSources from '../components/GroundingSources';
+
+const SearchResult: React.FC<ToolResultProps> = ({ content, grounding, onContentChange }) => (
+  <>
+    <SmartContentRenderer content={content} onContentChange={onContentChange} />
+    <GroundingSources chunks={grounding} icon={Search} />
+  </>
+);
+
+const search: ToolDefinition = {
+  id: 'SEARCH',
+  label: 'Search',
+  description: 'Real-time, fact-checked answers from the web.',
+  examples: ["What's the news on Mars?", 'Who won the latest Champions League final?'],
+  icon: Search,
+  color: 'text-blue-400',
+  bg: 'bg-blue-400',
+  border: 'border-blue-400',
+  inputs: ['text', 'audio'],
+  speech: 'short',
+  run: async (input, stream) => {
+    const { text, chunks } = await runSearchQuery(input.text, stream);
+    return { text, grounding: chunks };
+  },
+  Result: SearchResult,
+};
+
+export default search;
@@ -0,0 +1,19 @@
+import { Brain } from 'lucide-react';
+import { ToolDefinition } from '../types';
+import { runDeepThinking } from '../utils/genai';
+
+const thinking: ToolDefinition = {
+  id: 'THINKING',
+  label: 'Think',
+  description: 'Deep reasoning for complex logic, code, and math.',
+  examples: ['Prove there are infinitely many primes', 'Why does my binary search loop forever?'],
+  icon: Brain,
+  color: 'text-purple-400',
+  bg: 'bg-purple-400',
+  border: 'border-purple-400',
+  inputs: ['text', 'audio'],
+  speech: 'short',
+  run: async (input, stream) => ({ text: await runDeepThinking(input.text, stream) }),
+};
+
+export default thinking;
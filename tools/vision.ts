@@ -0,0 +1,26 @@
+import { Camera } from 'lucide-react';
+import { ToolDefinition } from '../types';
+import { analyzeAttachments } from '../utils/genai';
+import { isPdf } from '../utils/attachments';
+
+const vision: ToolDefinition = {
+  id: 'VISION',
+  label: 'Vision',
+  description: 'Upload, paste, drop or snap images and PDFs to get detailed analysis and answers.',
+  examples: ['Analyze this photo', 'Summarize the key points of this PDF'],
+  icon: Camera,
+  color: 'text-pink-400',
+  bg: 'bg-pink-400',
+  border: 'border-pink-400',
+  inputs: ['image', 'text', 'audio'],
+  speech: 'short',
+  run: async (input, stream) => {
+    if (input.attachments.length === 0) throw new Error("Please upload an image.");
+    const [first] = input.attachments;
+    const prompt = input.text
+      || (input.attachments.length > 1 ? "Describe these files." : isPdf(first.mimeType) ? "Summarize this document." : "Describe this image.");
+    return { text: await analyzeAttachments(input.attachments, prompt, stream) };
+  },
+};
+
+export default vision;
@@ -1,3 +1,6 @@
+import type { FC } from 'react';
+import type { LucideIcon } from 'lucide-react';
+
 
 export interface ModeConfig {
   id: string;
@@ -5,27 +8,105 @@ export interface ModeConfig {
   description: string;
   systemInstruction: string;
   voiceName: string;
+  icon?: string; // Key into components/PersonaIcon, a generic icon when missing
+  // Live session behaviour; anything left out uses the defaults in utils/liveConfig.ts
+  model?: string;                  // Live model id
+  temperature?: number;
+  languageCode?: string;           // BCP-47 code for the spoken replies, e.g. 'es-ES'
+  searchGrounding?: boolean;       // Built-in Google Search grounding
+  functionCalls?: boolean;         // Smart Tools exposed as function calls; on unless false
+  affectiveDialog?: boolean;       // Adapt tone to the user's emotion
+  proactiveAudio?: boolean;        // Allow the model to stay silent when not addressed
+  vadSensitivity?: VadSensitivity; // Server turn detection in continuous capture mode
+}
+
+export enum VadSensitivity {
+  LOW = 'LOW',   // Fewer false starts, waits longer before ending a turn
+  HIGH = 'HIGH', // Reacts to quieter speech, ends turns sooner
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
+export enum CaptureMode {
+  CONTINUOUS = 'CONTINUOUS',     // Stream everything, server detects turns
+  PUSH_TO_TALK = 'PUSH_TO_TALK', // Stream only while Space / the mic button is held
+  VAD = 'VAD',                   // Stream only while the local detector hears speech
+}
+
+export enum VideoSource {
+  CAMERA = 'CAMERA',
+  SCREEN = 'SCREEN',
+}
+
 export interface AudioFrequencyData {
   values: Uint8Array;
 }
 
-export enum ToolType {
-  VISION = 'VISION',
-  THINKING = 'THINKING',
-  SEARCH = 'SEARCH',
-  MAPS = 'MAPS',
-  FAST = 'FAST',
-  PLANNER = 'PLANNER',
-  CHAT = 'CHAT',
+// What a Smart Tool accepts; 'image' also covers PDFs, 'audio' means spoken queries transcribed into the text
+export type ToolInputKind = 'text' | 'image' | 'audio' | 'location';
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string;       // Base64, as sent to the model
+  thumbnail?: string; // JPEG data URL, images only
+}
+
+export type AttachmentPreview = Pick<Attachment, 'name' | 'mimeType' | 'thumbnail'>;
+
+export interface ToolInput {
+  text: string;
+  attachments: Attachment[];
+  location?: GeolocationCoordinates; // Only looked up for tools that accept 'location'
+  history: ChatMessage[];            // Earlier messages of the thread, for conversation tools
+}
+
+export interface ToolOutput {
+  text: string;
+  grounding?: any[];
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // Called with the whole text so far after every chunk
+}
+
+export interface ToolResultProps {
+  content: string;
+  grounding: any[];
+  onContentChange: (content: string) => void;
+  readOnly?: boolean; // Set while the result is still streaming in, as the next chunk would overwrite edits
+}
+
+// When an answer is read aloud: never, only short ones, or always
+export type ToolSpeechPolicy = 'never' | 'short' | 'always';
+
+/**
+ * A Smart Tool. Built-in tools live in tools/, one per file, and are listed in tools/registry.ts.
+ */
+export interface ToolDefinition {
+  id: string; // Stored with history items, so keep it stable
+  label: string;
+  description: string; // Shown on the empty screen
+  placeholder?: string;
+  examples?: string[];  // Suggestions on the empty screen; picking one fills the input
+  icon: LucideIcon;
+  color: string;  // Tailwind text colour class
+  bg: string;     // Tailwind background class
+  border: string; // Tailwind border colour class
+  inputs: ToolInputKind[];
+  conversation?: boolean; // Runs in chat threads
+  speech: ToolSpeechPolicy;
+  run: (input: ToolInput, stream: StreamOptions) => Promise<ToolOutput>;
+  plainText?: (content: string) => string; // For history previews and Read Aloud, when results aren't prose
+  Result?: FC<ToolResultProps>; // Defaults to components/SmartContentRenderer
 }
 
 export interface ToolResult {
@@ -40,4 +121,112 @@ export interface TranscriptMessage {
   text: string;
   isPartial: boolean;
   timestamp: number;
+  toolName?: string; // Set when the message shows output of a live function call
+  isTyped?: boolean;  // User turn typed into the transcript card rather than spoken
+  wasInterrupted?: boolean; // Assistant reply cut off by the user; text is what was actually played
+}
+
+// A finished (or in-progress) live conversation as saved to localStorage
+export interface LiveSessionRecord {
+  id: string;
+  modeId: string;
+  modeName: string;
+  voiceName: string;
+  captureMode: CaptureMode;
+  startedAt: number;
+  endedAt: number;
+  messages: TranscriptMessage[];
+  scenario?: NegotiationScenario; // Set when the session was a negotiation exercise
+  debrief?: NegotiationDebrief;
+}
+
+// A named set of target phrases for pronunciation practice
+export interface PracticeList {
+  id: string;
+  name: string;
+  phrases: string[];
+}
+
+// The tutor's own assessment of an attempt, reported through a function call
+export interface PronunciationScore {
+  phrase: string;
+  score: number; // 0-100
+  mispronouncedWords: string[];
+  feedback: string;
+}
+
+export interface PracticeAttempt {
+  id: string;
+  listId: string;
+  phrase: string;
+  heard: string;          // Input transcription of the attempt
+  missedWords: string[];  // Target words missing from the transcription
+  extraWords: string[];
+  accuracy: number;       // Word-level match against the target, 0-100
+  score?: PronunciationScore;
+  timestamp: number;
+}
+
+// A negotiation exercise; the counterpart is played by the live model
+export interface NegotiationScenario {
+  id: string;
+  name: string;
+  userRole: 'buyer' | 'seller';
+  counterpartRole: string;  // Who the model plays, e.g. "Procurement lead at a hospital chain"
+  product: string;          // What is being negotiated
+  currency: string;
+  priceFloor: number;       // Realistic range for the deal
+  priceCeiling: number;
+  walkAwayPrice: number;    // The counterpart's secret limit
+  timeLimitMinutes: number;
+  notes?: string;
+}
+
+export interface NegotiationConcession {
+  by: 'user' | 'counterpart';
+  description: string;
+}
+
+// Structured post-session analysis of a negotiation
+export interface NegotiationDebrief {
+  score: number; // 0-100
+  summary: string;
+  dealReached: boolean;
+  finalPrice?: number;
+  concessions: NegotiationConcession[];
+  anchoring: { firstOfferBy: 'user' | 'counterpart' | 'none'; assessment: string };
+  missedOpportunities: string[];
+  createdAt: number;
+}
+
+export interface StudyPlanEntry {
+  day: string;       // YYYY-MM-DD, though an edited cell may hold a weekday name instead
+  startTime: string; // HH:MM, 24-hour
+  endTime: string;
+  subject: string;
+  topic: string;
+  status: 'todo' | 'done';
+}
+
+export interface StudyPlan {
+  summary: string;
+  entries: StudyPlanEntry[];
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  stopped?: boolean; // The reply was cut short with the stop button
+}
+
+// A multi-turn conversation in the Chat tool
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  branchedFrom?: { threadId: string; messageId: string };
 }
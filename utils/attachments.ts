@@ -0,0 +1,93 @@
+import { Attachment, AttachmentPreview } from '../types';
+
+// Longest edge of images sent for analysis, and of the thumbnails kept with history items
+export const ATTACHMENT_MAX_SIZE = 1536;
+export const THUMBNAIL_MAX_SIZE = 160;
+const ATTACHMENT_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Inline data is limited to about 20 MB per request
+export const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const isPdf = (mimeType: string) => mimeType === 'application/pdf';
+
+export const isAcceptedFile = (file: File) => file.type.startsWith('image/') || isPdf(file.type);
+
+// Decoded size of the base64 payloads
+export const attachmentBytes = (attachments: Attachment[]) =>
+  attachments.reduce((total, a) => total + Math.floor(a.data.length * 3 / 4), 0);
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Could not read the image."));
+  image.src = src;
+});
+
+// JPEG data URL of the image scaled down to fit maxSize
+function downscale(image: HTMLImageElement, maxSize: number, quality: number): string {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not process the image.");
+  // Transparent areas would turn black in a JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Images are re-encoded as JPEG no larger than ATTACHMENT_MAX_SIZE, with a thumbnail;
+ * PDFs are sent as they are.
+ */
+export async function readAttachment(file: File): Promise<Attachment> {
+  if (isPdf(file.type)) {
+    const dataUrl = await readDataUrl(file);
+    return { id: newId(), name: file.name, mimeType: file.type, data: dataUrl.split(',')[1] };
+  }
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name || 'This file'} is not an image or PDF.`);
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    return {
+      id: newId(),
+      name: file.name || 'Pasted image',
+      mimeType: 'image/jpeg',
+      data: downscale(image, ATTACHMENT_MAX_SIZE, ATTACHMENT_QUALITY).split(',')[1],
+      thumbnail: downscale(image, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY),
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// A webcam frame, already downscaled by utils/video.captureJpegFrame
+export async function attachmentFromJpeg(base64: string): Promise<Attachment> {
+  const image = await loadImage(`data:image/jpeg;base64,${base64}`);
+  return {
+    id: newId(),
+    name: `Camera ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`,
+    mimeType: 'image/jpeg',
+    data: base64,
+    thumbnail: downscale(image, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY),
+  };
+}
+
+// What a history item keeps: the name, type and thumbnail, never the full data
+export const toPreview = ({ name, mimeType, thumbnail }: Attachment): AttachmentPreview =>
+  thumbnail ? { name, mimeType, thumbnail } : { name, mimeType };
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createResamplerState, resamplePcm } from './audio';
+
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i);
+
+// Feeds `input` through the resampler in chunks of `size` samples and joins the output
+function resampleInChunks(input: Float32Array, fromRate: number, toRate: number, size: number): number[] {
+  let state = createResamplerState();
+  const output: number[] = [];
+  for (let start = 0; start < input.length; start += size) {
+    const result = resamplePcm(input.subarray(start, start + size), fromRate, toRate, state);
+    state = result.state;
+    output.push(...result.output);
+  }
+  return output;
+}
+
+describe('resamplePcm', () => {
+  it('returns the input untouched when the rates match', () => {
+    const input = ramp(128);
+    expect(resamplePcm(input, 16000, 16000, createResamplerState()).output).toBe(input);
+  });
+
+  it('produces one output sample per ratio of input samples', () => {
+    expect(resamplePcm(ramp(4800), 48000, 16000, createResamplerState()).output).toHaveLength(1600);
+    expect(resamplePcm(ramp(4410), 44100, 16000, createResamplerState()).output).toHaveLength(1600);
+    expect(resamplePcm(ramp(1600), 16000, 24000, createResamplerState()).output).toHaveLength(2399);
+  });
+
+  it('averages a full period into the first downsampled sample', () => {
+    const { output } = resamplePcm(ramp(12), 48000, 16000, createResamplerState());
+    expect(Array.from(output)).toEqual([1, 4, 7, 10]);
+  });
+
+  it('starts an upsampled stream on the first input sample', () => {
+    const { output } = resamplePcm(ramp(4), 16000, 32000, createResamplerState());
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 1.5, 2, 2.5]);
+  });
+
+  it.each([
+    [48000, 16000],
+    [24000, 16000],
+    [16000, 24000],
+    [22050, 24000],
+  ])('gives the same stream from %i to %i Hz whatever the chunk size', (fromRate, toRate) => {
+    const input = Float32Array.from({ length: 2000 }, (_, i) => Math.sin(i / 7));
+    const whole = resampleInChunks(input, fromRate, toRate, input.length);
+    for (const size of [1, 128, 333]) {
+      const chunked = resampleInChunks(input, fromRate, toRate, size);
+      expect(chunked).toHaveLength(whole.length);
+      chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+    }
+  });
+});
@@ -7,9 +7,98 @@ export interface GeminiAudioData {
 }
 
 /**
- * Converts Float32Array audio data to Int16Array and wraps it in the structure expected by Gemini.
+ * Carries the resampler position across consecutive chunks of one stream.
  */
-export function createPcmBlob(data: Float32Array): GeminiAudioData {
+export interface ResamplerState {
+  position: number;   // Fractional source index of the next output sample, relative to the next chunk
+  lastSample: number; // Final input sample of the previous chunk (used when upsampling)
+  sum: number;        // Partial average carried into the next chunk (used when downsampling)
+  count: number;
+}
+
+export function createResamplerState(): ResamplerState {
+  return { position: 0, lastSample: 0, sum: 0, count: 0 };
+}
+
+/**
+ * Averages any number of channels into a single mono channel.
+ * Pure and self-contained: it is also embedded in the capture worklet source.
+ */
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = channels[0].length;
+  const mono = new Float32Array(length);
+  for (let c = 0; c < channels.length; c++) {
+    const channel = channels[c];
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Resamples one chunk of a mono stream from `fromRate` to `toRate`.
+ * Downsampling averages every input sample falling into an output period (a box filter that
+ * keeps aliasing down for speech); upsampling interpolates linearly. Pass the returned state
+ * into the next call to resample a continuous stream without clicks at chunk boundaries.
+ * Pure and self-contained: it is also embedded in the capture worklet source.
+ */
+export function resamplePcm(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  state: ResamplerState
+): { output: Float32Array; state: ResamplerState } {
+  if (fromRate === toRate) return { output: input, state };
+
+  const ratio = fromRate / toRate;
+  const length = input.length;
+  const output = new Float32Array(Math.ceil(length / ratio) + 2);
+  let written = 0;
+  let position = state.position;
+  let lastSample = state.lastSample;
+  let sum = state.sum;
+  let count = state.count;
+
+  if (ratio > 1) {
+    // position marks where the current output period ends; a carried position is always past the
+    // chunk start, so zero means a fresh stream whose first period spans a full `ratio` samples
+    if (position <= 0) position += ratio;
+    for (let i = 0; i < length; i++) {
+      sum += input[i];
+      count++;
+      if (i + 1 >= position) {
+        output[written++] = sum / count;
+        sum = 0;
+        count = 0;
+        position += ratio;
+      }
+    }
+  } else {
+    // position may sit in [-1, 0), i.e. between the previous chunk's last sample and input[0]
+    while (position < length - 1) {
+      const index = Math.floor(position);
+      const frac = position - index;
+      const a = index < 0 ? lastSample : input[index];
+      const b = input[index + 1];
+      output[written++] = a + (b - a) * frac;
+      position += ratio;
+    }
+    if (length > 0) lastSample = input[length - 1];
+  }
+
+  return {
+    output: output.subarray(0, written),
+    state: { position: position - length, lastSample, sum, count },
+  };
+}
+
+/**
+ * Converts Float32 samples in [-1, 1] to 16-bit signed PCM.
+ * Pure and self-contained: it is also embedded in the capture worklet source.
+ */
+export function floatToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -17,8 +106,31 @@ export function createPcmBlob(data: Float32Array): GeminiAudioData {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+/**
+ * Converts captured audio to 16kHz mono Int16 PCM and wraps it in the structure expected by Gemini.
+ * Multi-channel input is downmixed, and audio captured at any other `sampleRate` is resampled so the
+ * samples always match the advertised mimeType. `resampler` is updated in place between calls.
+ */
+export function createPcmBlob(
+  data: Float32Array | Float32Array[],
+  sampleRate: number = PCM_SAMPLE_RATE,
+  resampler: ResamplerState = createResamplerState()
+): GeminiAudioData {
+  const mono = Array.isArray(data) ? downmixToMono(data) : data;
+  const { output, state } = resamplePcm(mono, sampleRate, PCM_SAMPLE_RATE, resampler);
+  Object.assign(resampler, state);
+  return createPcmBlobFromInt16(floatToInt16(output));
+}
+
+/**
+ * Wraps already-converted Int16 PCM (e.g. from the capture worklet) in the structure expected by Gemini.
+ */
+export function createPcmBlobFromInt16(int16: Int16Array): GeminiAudioData {
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
+    data: encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}`,
   };
 }
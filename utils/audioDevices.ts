@@ -0,0 +1,27 @@
+// Chrome 110+ can route an AudioContext to a chosen output; not yet in TypeScript's DOM lib
+type SinkSelectableContext = AudioContext & { setSinkId(sinkId: string): Promise<void> };
+
+export function isOutputSelectionSupported(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+/**
+ * Routes the context to the given output device ('' for the system default).
+ * Returns false when the browser can't select outputs or the device is unavailable.
+ */
+export async function applyOutputDevice(ctx: AudioContext, deviceId: string): Promise<boolean> {
+  if (!isOutputSelectionSupported()) return false;
+  try {
+    await (ctx as SinkSelectableContext).setSinkId(deviceId);
+    return true;
+  } catch (e) {
+    console.warn("Could not switch audio output device", e);
+    return false;
+  }
+}
+
+// Devices without a label are listed before the user has granted microphone access
+export function deviceLabel(device: MediaDeviceInfo, index: number): string {
+  if (device.label) return device.label;
+  return `${device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
+}
@@ -0,0 +1,27 @@
+const STORAGE_KEY = 'velocity_caption_translation';
+
+export interface CaptionTranslationSettings {
+  enabled: boolean;
+  language: string; // English name, passed to the model as-is
+}
+
+export const CAPTION_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish',
+  'Turkish', 'Russian', 'Ukrainian', 'Arabic', 'Hindi', 'Japanese', 'Korean', 'Chinese (Simplified)',
+];
+
+const DEFAULT_CAPTION_SETTINGS: CaptionTranslationSettings = { enabled: false, language: 'English' };
+
+export function loadCaptionSettings(): CaptionTranslationSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CAPTION_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load caption settings", e);
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+}
+
+export function saveCaptionSettings(settings: CaptionTranslationSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
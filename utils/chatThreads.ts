@@ -0,0 +1,74 @@
+import { ChatMessage, ChatThread } from '../types';
+
+const STORAGE_KEY = 'velocity_chat_threads';
+export const MAX_SAVED_THREADS = 50;
+
+const TITLE_LENGTH = 60;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function loadThreads(): ChatThread[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load chat threads", e);
+    return [];
+  }
+}
+
+// Most recently updated first
+function writeThreads(threads: ChatThread[]): ChatThread[] {
+  const sorted = [...threads].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_SAVED_THREADS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+  return sorted;
+}
+
+export function upsertThread(thread: ChatThread): ChatThread[] {
+  return writeThreads([thread, ...loadThreads().filter(t => t.id !== thread.id)]);
+}
+
+export function deleteThread(id: string): ChatThread[] {
+  return writeThreads(loadThreads().filter(t => t.id !== id));
+}
+
+export const titleFromText = (text: string) => {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1)}…` : firstLine || 'New chat';
+};
+
+export function createThread(): ChatThread {
+  const now = Date.now();
+  return { id: newId(), title: '', messages: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Appends a message. A thread without a title is named after its first message.
+ */
+export function appendMessage(thread: ChatThread, role: ChatMessage['role'], text: string): ChatThread {
+  const now = Date.now();
+  const message: ChatMessage = { id: newId(), role, text, timestamp: now };
+  return {
+    ...thread,
+    title: thread.title || titleFromText(text),
+    messages: [...thread.messages, message],
+    updatedAt: now,
+  };
+}
+
+/**
+ * A new thread holding the conversation up to and including `messageId`, so a different
+ * follow-up can be tried from there while the original thread stays as it was.
+ */
+export function branchThread(thread: ChatThread, messageId: string): ChatThread {
+  const index = thread.messages.findIndex(m => m.id === messageId);
+  const now = Date.now();
+  return {
+    id: newId(),
+    title: `${thread.title} (branch)`,
+    messages: thread.messages.slice(0, index + 1),
+    createdAt: now,
+    updatedAt: now,
+    branchedFrom: { threadId: thread.id, messageId },
+  };
+}
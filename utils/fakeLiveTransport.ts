@@ -0,0 +1,190 @@
+import { LiveConnectParameters, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { LiveSession, LiveTransport } from './liveTransport';
+import { encodeBase64, floatToInt16, OUTPUT_SAMPLE_RATE } from './audio';
+
+/**
+ * Scripted, network-free stand-in for the Live API. Runs in the browser (open the app with
+ * `?fakeLive`) and in Node, replaying recorded LiveServerMessage sequences into the
+ * callbacks `useLiveGemini` registers, and recording everything the client sends back.
+ */
+
+export type FakeClientInputKind = 'audio' | 'video' | 'activityStart' | 'activityEnd' | 'clientContent' | 'toolResponse';
+
+export type FakeLiveStep =
+  | { type: 'message'; message: LiveServerMessage; delayMs?: number }
+  | { type: 'waitFor'; input: FakeClientInputKind }   // Pause the script until the client sends this
+  | { type: 'close'; delayMs?: number }               // Server closes the socket
+  | { type: 'error'; delayMs?: number; reason?: string };
+
+export interface FakeClientMessage {
+  kind: FakeClientInputKind;
+  params: unknown;
+  connection: number;
+}
+
+export interface FakeLiveTransportOptions {
+  // Steps to play on each connection; a function gets the 0-based connection index (reconnects included)
+  script: FakeLiveStep[] | ((connection: number) => FakeLiveStep[]);
+  failFirstConnects?: number; // Reject this many connect attempts before succeeding
+  openDelayMs?: number;
+}
+
+export interface FakeLiveTransport extends LiveTransport {
+  readonly connections: LiveConnectParameters[]; // Params (model, config) of every connect call
+  readonly sent: FakeClientMessage[];            // Everything the client sent, across connections
+  emit(message: LiveServerMessage): void;        // Push an unscripted message into the current connection
+  drop(): void;                                  // Simulate the socket dropping unexpectedly
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// --- Message Builders ---
+export const fakeMessages = {
+  audio: (data: string): LiveServerMessage =>
+    ({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }] } } }) as LiveServerMessage,
+  inputTranscription: (text: string): LiveServerMessage =>
+    ({ serverContent: { inputTranscription: { text } } }) as LiveServerMessage,
+  outputTranscription: (text: string): LiveServerMessage =>
+    ({ serverContent: { outputTranscription: { text } } }) as LiveServerMessage,
+  interrupted: (): LiveServerMessage =>
+    ({ serverContent: { interrupted: true } }) as LiveServerMessage,
+  turnComplete: (): LiveServerMessage =>
+    ({ serverContent: { turnComplete: true } }) as LiveServerMessage,
+  toolCall: (name: string, args: Record<string, unknown>, id: string = `call-${name}`): LiveServerMessage =>
+    ({ toolCall: { functionCalls: [{ id, name, args }] } }) as LiveServerMessage,
+  goAway: (timeLeft: string = '5s'): LiveServerMessage =>
+    ({ goAway: { timeLeft } }) as LiveServerMessage,
+  resumptionUpdate: (newHandle: string): LiveServerMessage =>
+    ({ sessionResumptionUpdate: { newHandle, resumable: true } }) as LiveServerMessage,
+};
+
+/**
+ * Base64 Int16 PCM sine tone at the model output rate, a stand-in for recorded model audio.
+ */
+export function tonePcmChunk(durationMs: number, frequency: number = 220, gain: number = 0.2): string {
+  const length = Math.round(OUTPUT_SAMPLE_RATE * durationMs / 1000);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = Math.sin(2 * Math.PI * frequency * i / OUTPUT_SAMPLE_RATE) * gain;
+  }
+  return encodeBase64(new Uint8Array(floatToInt16(samples).buffer));
+}
+
+// Model turn that speaks `text` word by word, pairing each transcription fragment with an audio chunk
+export function spokenTurn(text: string, chunkMs: number = 200): FakeLiveStep[] {
+  const steps: FakeLiveStep[] = [];
+  text.split(/(?<=\s)/).forEach(word => {
+    steps.push({ type: 'message', message: fakeMessages.audio(tonePcmChunk(chunkMs)), delayMs: chunkMs / 2 });
+    steps.push({ type: 'message', message: fakeMessages.outputTranscription(word) });
+  });
+  steps.push({ type: 'message', message: fakeMessages.turnComplete(), delayMs: chunkMs });
+  return steps;
+}
+
+// Recorded demo conversation: a normal exchange, then the user barging in mid-answer
+export const DEMO_LIVE_SCRIPT: FakeLiveStep[] = [
+  { type: 'message', message: fakeMessages.resumptionUpdate('fake-handle-1'), delayMs: 300 },
+  { type: 'message', message: fakeMessages.inputTranscription('Hey, can you '), delayMs: 800 },
+  { type: 'message', message: fakeMessages.inputTranscription('hear me?'), delayMs: 400 },
+  ...spokenTurn('Loud and clear! This is the offline fake server talking.'),
+  { type: 'message', message: fakeMessages.inputTranscription('Tell me a long story.'), delayMs: 1500 },
+  ...spokenTurn('Once upon a time, in a city made entirely of ').slice(0, -1),
+  { type: 'message', message: fakeMessages.inputTranscription('Actually, never mind.'), delayMs: 200 },
+  { type: 'message', message: fakeMessages.interrupted() },
+  { type: 'message', message: fakeMessages.turnComplete(), delayMs: 100 },
+  ...spokenTurn('No problem. What else can I do for you?'),
+];
+
+const classifyRealtimeInput = (params: LiveSendRealtimeInputParameters): FakeClientInputKind => {
+  if (params.activityStart) return 'activityStart';
+  if (params.activityEnd) return 'activityEnd';
+  if (params.video) return 'video';
+  return 'audio';
+};
+
+export function createFakeLiveTransport(options: FakeLiveTransportOptions): FakeLiveTransport {
+  const connections: LiveConnectParameters[] = [];
+  const sent: FakeClientMessage[] = [];
+  let failuresLeft = options.failFirstConnects || 0;
+  let current: { params: LiveConnectParameters; closed: boolean; close: (notify: boolean) => void } | null = null;
+  const waiters: { kind: FakeClientInputKind; resolve: () => void }[] = [];
+
+  const record = (connection: number, kind: FakeClientInputKind, params: unknown) => {
+    sent.push({ kind, params, connection });
+    for (let i = waiters.length - 1; i >= 0; i--) {
+      if (waiters[i].kind === kind) waiters.splice(i, 1)[0].resolve();
+    }
+  };
+
+  const runScript = async (connection: number, state: { closed: boolean }, params: LiveConnectParameters) => {
+    const steps = typeof options.script === 'function' ? options.script(connection) : options.script;
+    for (const step of steps) {
+      if (state.closed) return;
+      if (step.type === 'waitFor') {
+        await new Promise<void>(resolve => waiters.push({ kind: step.input, resolve }));
+        continue;
+      }
+      if (step.delayMs) await wait(step.delayMs);
+      if (state.closed) return;
+
+      if (step.type === 'message') {
+        params.callbacks.onmessage(step.message);
+      } else if (step.type === 'error') {
+        params.callbacks.onerror?.({ message: step.reason || 'Fake server error' } as ErrorEvent);
+        current?.close(true);
+      } else if (step.type === 'close') {
+        current?.close(true);
+      }
+    }
+  };
+
+  return {
+    connections,
+    sent,
+
+    async connect(params: LiveConnectParameters): Promise<LiveSession> {
+      const connection = connections.length;
+      connections.push(params);
+      await wait(options.openDelayMs || 0);
+
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        params.callbacks.onerror?.({ message: 'Fake connect failure' } as ErrorEvent);
+        throw new Error('Fake connect failure');
+      }
+
+      const state = {
+        params,
+        closed: false,
+        close: (notify: boolean) => {
+          if (state.closed) return;
+          state.closed = true;
+          if (current === state) current = null;
+          if (notify) params.callbacks.onclose?.({ code: 1000, reason: 'closed' } as CloseEvent);
+        },
+      };
+      current = state;
+
+      const session: LiveSession = {
+        sendRealtimeInput: (input) => { if (!state.closed) record(connection, classifyRealtimeInput(input), input); },
+        sendClientContent: (content) => { if (!state.closed) record(connection, 'clientContent', content); },
+        sendToolResponse: (response) => { if (!state.closed) record(connection, 'toolResponse', response); },
+        close: () => state.close(true),
+      };
+
+      params.callbacks.onopen?.();
+      runScript(connection, state, params);
+      return session;
+    },
+
+    emit(message: LiveServerMessage) {
+      current?.params.callbacks.onmessage(message);
+    },
+
+    drop() {
+      if (!current) return;
+      current.params.callbacks.onerror?.({ message: 'Fake connection dropped' } as ErrorEvent);
+      current.close(true);
+    },
+  };
+}
@@ -1,30 +1,47 @@
-
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GenerateContentParameters, GoogleGenAI, Modality, Type } from "@google/genai";
+import { Attachment, ChatMessage, StreamOptions } from "../types";
 
 const apiKey = process.env.API_KEY || '';
 const ai = new GoogleGenAI({ apiKey });
 
-export async function fileToGenerativePart(file: File): Promise<{ inlineData: { data: string; mimeType: string } }> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: file.type,
-        },
-      });
+/**
+ * Runs a request through generateContent, or through generateContentStream when stream options
+ * are given. A stream cancelled through its signal resolves with the text received up to then.
+ * Exported for tools that need a request of their own.
+ */
+export async function generate(params: GenerateContentParameters, stream?: StreamOptions): Promise<{ text: string; chunks: any[] }> {
+  if (!stream) {
+    const response = await ai.models.generateContent(params);
+    return {
+      text: response.text || "",
+      chunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
     };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+  }
+
+  let text = "";
+  let chunks: any[] = [];
+  try {
+    const response = await ai.models.generateContentStream({
+      ...params,
+      config: { ...params.config, abortSignal: stream.signal }
+    });
+    for await (const chunk of response) {
+      if (stream.signal?.aborted) break;
+      text += chunk.text || "";
+      // Grounding metadata arrives with the last chunks
+      chunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || chunks;
+      stream.onText?.(text);
+    }
+  } catch (error) {
+    if (!stream.signal?.aborted) throw error;
+  }
+  return { text, chunks };
 }
 
 // 1. Audio Transcription (gemini-2.5-flash)
-export async function transcribeAudio(audioBase64: string): Promise<string> {
+export async function transcribeAudio(audioBase64: string, stream?: StreamOptions): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
+    const { text } = await generate({
       model: 'gemini-2.5-flash',
       contents: {
         parts: [
@@ -32,16 +49,16 @@ export async function transcribeAudio(audioBase64: string): Promise<string> {
           { text: "Transcribe this audio exactly as spoken." }
         ]
       }
-    });
-    return response.text || "";
+    }, stream);
+    return text;
   } catch (error) {
     console.error("Transcription error:", error);
     throw error;
   }
 }
 
-// 2. Text to Speech (gemini-2.5-flash-preview-tts)
-export async function generateSpeech(text: string): Promise<string | undefined> {
+// 2. Text to Speech (gemini-2.5-flash-preview-tts), a single clip so only cancellable
+export async function generateSpeech(text: string, signal?: AbortSignal): Promise<string | undefined> {
   try {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-preview-tts',
@@ -51,6 +68,7 @@ export async function generateSpeech(text: string): Promise<string | undefined>
         speechConfig: {
           voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
         },
+        abortSignal: signal,
       },
     });
     return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
@@ -61,47 +79,45 @@ export async function generateSpeech(text: string): Promise<string | undefined>
   }
 }
 
-// 3. Vision Analysis (gemini-3-pro-preview)
-export async function analyzeImage(file: File, prompt: string): Promise<string> {
-  const imagePart = await fileToGenerativePart(file);
-  const response = await ai.models.generateContent({
+// 3. Vision Analysis (gemini-3-pro-preview), every image and PDF inline in one request
+export async function analyzeAttachments(attachments: Pick<Attachment, 'data' | 'mimeType'>[], prompt: string, stream?: StreamOptions): Promise<string> {
+  const { text } = await generate({
     model: 'gemini-3-pro-preview',
     contents: {
-      parts: [imagePart, { text: prompt }]
+      parts: [
+        ...attachments.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } })),
+        { text: prompt }
+      ]
     }
-  });
-  return response.text || "No analysis generated.";
+  }, stream);
+  return text || (stream?.signal?.aborted ? "" : "No analysis generated.");
 }
 
 // 4. Thinking Mode (gemini-3-pro-preview with budget)
-export async function runDeepThinking(prompt: string): Promise<string> {
-  const response = await ai.models.generateContent({
+export async function runDeepThinking(prompt: string, stream?: StreamOptions): Promise<string> {
+  const { text } = await generate({
     model: 'gemini-3-pro-preview',
     contents: prompt,
     config: {
       thinkingConfig: { thinkingBudget: 32768 } // Max for 3-pro
     }
-  });
-  return response.text || "No thoughts generated.";
+  }, stream);
+  return text || (stream?.signal?.aborted ? "" : "No thoughts generated.");
 }
 
 // 5. Google Search Grounding (gemini-2.5-flash)
-export async function runSearchQuery(prompt: string): Promise<{ text: string; chunks: any[] }> {
-  const response = await ai.models.generateContent({
+export async function runSearchQuery(prompt: string, stream?: StreamOptions): Promise<{ text: string; chunks: any[] }> {
+  return generate({
     model: 'gemini-2.5-flash',
     contents: prompt,
     config: {
       tools: [{ googleSearch: {} }]
     }
-  });
-  return {
-    text: response.text || "",
-    chunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
-  };
+  }, stream);
 }
 
 // 6. Google Maps Grounding (gemini-2.5-flash)
-export async function runMapsQuery(prompt: string, location?: GeolocationCoordinates): Promise<{ text: string; chunks: any[] }> {
+export async function runMapsQuery(prompt: string, location?: GeolocationCoordinates, stream?: StreamOptions): Promise<{ text: string; chunks: any[] }> {
   const config: any = {
     tools: [{ googleMaps: {} }]
   };
@@ -117,50 +133,167 @@ export async function runMapsQuery(prompt: string, location?: GeolocationCoordin
     };
   }
 
-  const response = await ai.models.generateContent({
+  return generate({
     model: 'gemini-2.5-flash',
     contents: prompt,
     config
-  });
-  
-  return {
-    text: response.text || "",
-    chunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
-  };
+  }, stream);
 }
 
 // 7. Fast Response (gemini-flash-lite-latest)
-export async function runFastQuery(prompt: string): Promise<string> {
+export async function runFastQuery(prompt: string, stream?: StreamOptions): Promise<string> {
   // Correct alias for Flash Lite
-  const response = await ai.models.generateContent({
+  const { text } = await generate({
     model: 'gemini-flash-lite-latest', 
     contents: prompt
-  });
-  return response.text || "";
+  }, stream);
+  return text;
 }
 
-// 8. Study Planner (gemini-2.5-flash)
-export async function runPlannerQuery(prompt: string): Promise<string> {
-  const response = await ai.models.generateContent({
+// 8. Study Planner (gemini-2.5-flash, JSON output; summary first so it streams in before the sessions)
+export async function runPlannerQuery(prompt: string, stream?: StreamOptions): Promise<string> {
+  const today = new Date();
+  const { text } = await generate({
     model: 'gemini-2.5-flash',
-    contents: `Create a structured study timetable/plan for: "${prompt}". 
-    
+    contents: `Create a structured study timetable/plan for: "${prompt}".
+
+    Today is ${today.toLocaleDateString('en-US', { weekday: 'long' })} ${today.toLocaleDateString('en-CA')}.
     Requirements:
     1. Start with a brief, motivating summary (1-2 sentences).
-    2. Follow immediately with a Markdown Table.
-    3. The table columns must be: | Day | Time | Subject | Topic | Status |.
-    4. For 'Status', use empty checkboxes like "[ ]".
-    5. Be realistic and detailed.
-    6. Do not wrap the table in a code block (like \`\`\`), just raw markdown.`,
-  });
-  return response.text || "";
+    2. Schedule concrete study sessions on real dates from today onwards, with start and end times.
+    3. Every session starts with status "todo".
+    4. Be realistic and detailed.`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          entries: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                day: { type: Type.STRING, description: 'Date as YYYY-MM-DD.' },
+                startTime: { type: Type.STRING, description: '24-hour HH:MM.' },
+                endTime: { type: Type.STRING, description: '24-hour HH:MM.' },
+                subject: { type: Type.STRING },
+                topic: { type: Type.STRING },
+                status: { type: Type.STRING, enum: ['todo', 'done'] },
+              },
+              required: ['day', 'startTime', 'endTime', 'subject', 'topic', 'status'],
+              propertyOrdering: ['day', 'startTime', 'endTime', 'subject', 'topic', 'status'],
+            },
+          },
+        },
+        required: ['summary', 'entries'],
+        propertyOrdering: ['summary', 'entries'],
+      },
+    },
+  }, stream);
+  return text;
 }
 
-// 9. Chatbot (gemini-3-pro-preview)
-export async function runChatQuery(prompt: string): Promise<string> {
-  const response = await ai.models.generateContent({
+// 9. Chatbot (gemini-3-pro-preview), continuing the given history
+export async function runChatQuery(prompt: string, history: ChatMessage[] = [], stream?: StreamOptions): Promise<string> {
+  const { text } = await generate({
     model: 'gemini-3-pro-preview',
-    contents: prompt,
-  });
-  return response.text || "";
+    contents: [
+      ...history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      { role: 'user', parts: [{ text: prompt }] },
+    ],
+  }, stream);
+  return text;
+}
+
+// 10. Conversation Memory (gemini-flash-lite-latest)
+export async function summarizeConversation(transcript: string, previousMemory: string = '', stream?: StreamOptions): Promise<string> {
+  const { text } = await generate({
+    model: 'gemini-flash-lite-latest',
+    contents: `You maintain the long-term memory of a voice assistant about its user.
+
+Previous memory:
+${previousMemory || '(none)'}
+
+Latest conversation:
+${transcript}
+
+Rewrite the memory so it includes anything from the latest conversation worth remembering next time: facts about the user, their goals, preferences, progress and open threads.
+Requirements:
+1. Plain-text bullet points starting with "- ", at most 12, under 150 words in total.
+2. Drop details that no longer matter and merge duplicates.
+3. Do not include greetings, small talk or the assistant's own lines unless they matter later.
+4. Return only the bullet points.`,
+  }, stream);
+  return text.trim();
+}
+
+// 11. Negotiation Debrief (gemini-3-pro-preview with budget, JSON output; streamed text is partial JSON)
+export async function runNegotiationDebrief(scenarioBrief: string, transcript: string, stream?: StreamOptions): Promise<Record<string, unknown>> {
+  const { text } = await generate({
+    model: 'gemini-3-pro-preview',
+    contents: `You are an expert negotiation coach. Debrief the user on the negotiation below.
+
+Scenario:
+${scenarioBrief}
+
+Transcript ("User" is the person being coached, "Counterpart" was played by an AI):
+${transcript}
+
+Assess the user's performance:
+1. List every concession, in order, and who made it.
+2. Say who anchored first and how well the user handled the anchor.
+3. List concrete missed opportunities, referring to what was said.
+4. Score the user from 0 to 100, taking into account the outcome relative to the counterpart's walk-away point.`,
+    config: {
+      thinkingConfig: { thinkingBudget: 8192 },
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.NUMBER },
+          summary: { type: Type.STRING, description: 'Two or three sentences on how it went.' },
+          dealReached: { type: Type.BOOLEAN },
+          finalPrice: { type: Type.NUMBER, nullable: true },
+          concessions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                by: { type: Type.STRING, enum: ['user', 'counterpart'] },
+                description: { type: Type.STRING },
+              },
+              required: ['by', 'description'],
+            },
+          },
+          anchoring: {
+            type: Type.OBJECT,
+            properties: {
+              firstOfferBy: { type: Type.STRING, enum: ['user', 'counterpart', 'none'] },
+              assessment: { type: Type.STRING },
+            },
+            required: ['firstOfferBy', 'assessment'],
+          },
+          missedOpportunities: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['score', 'summary', 'dealReached', 'concessions', 'anchoring', 'missedOpportunities'],
+      },
+    },
+  }, stream);
+  if (stream?.signal?.aborted) throw new Error('Debrief cancelled.');
+  return JSON.parse(text || '{}');
+}
+
+// 12. Caption Translation (gemini-flash-lite-latest)
+export async function translateText(text: string, targetLanguage: string, stream?: StreamOptions): Promise<string> {
+  const response = await generate({
+    model: 'gemini-flash-lite-latest',
+    contents: `Translate this line from a spoken conversation into ${targetLanguage}. If it is already in ${targetLanguage}, return it unchanged. Return only the translation, with no quotes or notes.
+
+${text}`,
+    config: {
+      thinkingConfig: { thinkingBudget: 0 }
+    }
+  }, stream);
+  return response.text.trim();
 }
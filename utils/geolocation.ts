@@ -0,0 +1,18 @@
+const LOCATION_TIMEOUT_MS = 3000;
+
+/**
+ * Best effort: resolves to undefined when permission is denied or no fix arrives within 3 seconds,
+ * so callers can run without a location.
+ */
+export async function lookupLocation(): Promise<GeolocationCoordinates | undefined> {
+  try {
+    const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+      const id = setTimeout(() => reject(new Error("Timeout")), LOCATION_TIMEOUT_MS);
+      navigator.geolocation.getCurrentPosition((p) => { clearTimeout(id); resolve(p); },
+      (e) => { clearTimeout(id); reject(e); }, { timeout: LOCATION_TIMEOUT_MS });
+    });
+    return pos.coords;
+  } catch (e) {
+    return undefined;
+  }
+}
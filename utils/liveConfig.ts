@@ -0,0 +1,60 @@
+import { AutomaticActivityDetection, EndSensitivity, FunctionDeclaration, LiveConnectParameters, Modality, RealtimeInputConfig, StartSensitivity, Tool } from '@google/genai';
+import { CaptureMode, ModeConfig, VadSensitivity } from '../types';
+import { LIVE_FUNCTION_DECLARATIONS } from './liveTools';
+
+export const DEFAULT_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export interface LiveSessionSettings {
+  voiceName: string;
+  captureMode: CaptureMode;
+  systemInstruction: string; // The mode's instruction with anything added for this session (e.g. memory)
+  resumptionHandle?: string;
+  clientFunctions?: FunctionDeclaration[]; // Declared whatever the persona's tool settings
+}
+
+const SENSITIVITY: Record<VadSensitivity, AutomaticActivityDetection> = {
+  [VadSensitivity.LOW]: { startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_LOW, endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_LOW },
+  [VadSensitivity.HIGH]: { startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_HIGH, endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_HIGH },
+};
+
+// Continuous streaming relies on server-side VAD; the other modes mark activity themselves
+export const realtimeInputConfigFor = (captureMode: CaptureMode, sensitivity?: VadSensitivity): RealtimeInputConfig => ({
+  automaticActivityDetection: captureMode === CaptureMode.CONTINUOUS
+    ? { disabled: false, ...(sensitivity ? SENSITIVITY[sensitivity] : {}) }
+    : { disabled: true },
+});
+
+const toolsFor = (mode: ModeConfig, clientFunctions: FunctionDeclaration[]): Tool[] => {
+  const tools: Tool[] = [];
+  const functionDeclarations = [...(mode.functionCalls !== false ? LIVE_FUNCTION_DECLARATIONS : []), ...clientFunctions];
+  if (functionDeclarations.length) tools.push({ functionDeclarations });
+  if (mode.searchGrounding) tools.push({ googleSearch: {} });
+  return tools;
+};
+
+/**
+ * Live connect parameters for a persona. Fields the persona leaves out keep the API defaults,
+ * except function calls, which stay on unless turned off explicitly.
+ */
+export function buildLiveConnectParams(mode: ModeConfig, settings: LiveSessionSettings): Omit<LiveConnectParameters, 'callbacks'> {
+  const tools = toolsFor(mode, settings.clientFunctions || []);
+  return {
+    model: mode.model || DEFAULT_LIVE_MODEL,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } },
+        ...(mode.languageCode ? { languageCode: mode.languageCode } : {}),
+      },
+      systemInstruction: { parts: [{ text: settings.systemInstruction }] },
+      ...(mode.temperature !== undefined ? { temperature: mode.temperature } : {}),
+      ...(mode.affectiveDialog ? { enableAffectiveDialog: true } : {}),
+      ...(mode.proactiveAudio ? { proactivity: { proactiveAudio: true } } : {}),
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      ...(tools.length ? { tools } : {}),
+      realtimeInputConfig: realtimeInputConfigFor(settings.captureMode, mode.vadSensitivity),
+      sessionResumption: { handle: settings.resumptionHandle || undefined },
+    },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Per-turn latency and playback diagnostics for a live session. Pure like utils/transcript.ts:
+ * the hook feeds events in as they happen and keeps the latest state in a ref.
+ * All times are performance.now() milliseconds.
+ */
+
+// How the end of the user's turn was detected; local signals are more precise than transcription
+export type SpeechEndSource = 'vad' | 'push-to-talk' | 'transcription' | 'typed';
+
+export interface TurnMetrics {
+  index: number;
+  startedAt: number;                     // First model audio chunk
+  speechEndSource: SpeechEndSource | null;
+  responseLatencyMs: number | null;      // End of user speech -> first model audio chunk
+  audioChunks: number;
+  audioMs: number;                       // Model audio received
+  jitterMs: number;                      // RFC 3550 style inter-arrival jitter of audio chunks
+  maxArrivalGapMs: number;               // Longest wait between two chunks
+  underruns: number;                     // Times the playback cursor had fallen behind currentTime
+  underrunMs: number;                    // Total audible gap caused by those
+  maxUnderrunMs: number;
+  interrupted: boolean;
+  endedAt: number | null;
+}
+
+export interface LiveMetricsState {
+  sessionStartedAt: number;
+  wallClockStartedAt: number; // Date.now() at session start, to line exports up with transcripts
+  turns: TurnMetrics[];       // Most recent last; the last one may still be in progress
+  interruptions: number;
+  reconnects: number;
+  lastSpeechEnd: { at: number; source: SpeechEndSource } | null;
+  lastChunk: { at: number; audioMs: number } | null;
+}
+
+export type LiveMetricsEvent =
+  | { type: 'speechEnd'; source: SpeechEndSource }
+  | { type: 'modelAudio'; audioMs: number; behindMs: number } // behindMs: currentTime - nextStartTime when scheduled
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'reconnect' };
+
+export function createLiveMetrics(now: number = performance.now(), wallClock: number = Date.now()): LiveMetricsState {
+  return {
+    sessionStartedAt: now,
+    wallClockStartedAt: wallClock,
+    turns: [],
+    interruptions: 0,
+    reconnects: 0,
+    lastSpeechEnd: null,
+    lastChunk: null,
+  };
+}
+
+const currentTurn = (state: LiveMetricsState): TurnMetrics | null => {
+  const last = state.turns[state.turns.length - 1];
+  return last && last.endedAt === null ? last : null;
+};
+
+const replaceLast = (turns: TurnMetrics[], turn: TurnMetrics) => [...turns.slice(0, -1), turn];
+
+export function recordLiveMetric(state: LiveMetricsState, event: LiveMetricsEvent, now: number = performance.now()): LiveMetricsState {
+  const turn = currentTurn(state);
+
+  switch (event.type) {
+    case 'speechEnd':
+      // Transcription trails the audio: it never overrides a local signal, nor moves the mark once the model is answering
+      if (event.source === 'transcription' && (turn || (state.lastSpeechEnd && state.lastSpeechEnd.source !== 'transcription'))) {
+        return state;
+      }
+      return { ...state, lastSpeechEnd: { at: now, source: event.source } };
+
+    case 'modelAudio': {
+      if (!turn) {
+        const speechEnd = state.lastSpeechEnd;
+        const next: TurnMetrics = {
+          index: state.turns.length,
+          startedAt: now,
+          speechEndSource: speechEnd ? speechEnd.source : null,
+          responseLatencyMs: speechEnd ? now - speechEnd.at : null,
+          audioChunks: 1,
+          audioMs: event.audioMs,
+          jitterMs: 0,
+          maxArrivalGapMs: 0,
+          underruns: 0,
+          underrunMs: 0,
+          maxUnderrunMs: 0,
+          interrupted: false,
+          endedAt: null,
+        };
+        return { ...state, turns: [...state.turns, next], lastSpeechEnd: null, lastChunk: { at: now, audioMs: event.audioMs } };
+      }
+
+      const arrivalGap = state.lastChunk ? now - state.lastChunk.at : 0;
+      // Deviation between how far apart chunks arrived and how much audio the previous one carried
+      const deviation = state.lastChunk ? Math.abs(arrivalGap - state.lastChunk.audioMs) : 0;
+      const underrun = event.behindMs > 0 ? event.behindMs : 0;
+      const updated: TurnMetrics = {
+        ...turn,
+        audioChunks: turn.audioChunks + 1,
+        audioMs: turn.audioMs + event.audioMs,
+        jitterMs: turn.jitterMs + (deviation - turn.jitterMs) / 16,
+        maxArrivalGapMs: Math.max(turn.maxArrivalGapMs, arrivalGap),
+        underruns: turn.underruns + (underrun > 0 ? 1 : 0),
+        underrunMs: turn.underrunMs + underrun,
+        maxUnderrunMs: Math.max(turn.maxUnderrunMs, underrun),
+      };
+      return { ...state, turns: replaceLast(state.turns, updated), lastChunk: { at: now, audioMs: event.audioMs } };
+    }
+
+    case 'turnComplete':
+      if (!turn) return state;
+      return { ...state, turns: replaceLast(state.turns, { ...turn, endedAt: now }), lastChunk: null };
+
+    case 'interrupted': {
+      const turns = turn ? replaceLast(state.turns, { ...turn, interrupted: true, endedAt: now }) : state.turns;
+      return { ...state, turns, interruptions: state.interruptions + 1, lastChunk: null };
+    }
+
+    case 'reconnect':
+      return { ...state, reconnects: state.reconnects + 1 };
+  }
+}
+
+export interface LiveMetricsSummary {
+  turns: number;
+  latencySamples: number;
+  avgLatencyMs: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  avgJitterMs: number | null;
+  underruns: number;
+  underrunMs: number;
+  interruptions: number;
+  reconnects: number;
+}
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+
+export function summarizeLiveMetrics(state: LiveMetricsState): LiveMetricsSummary {
+  const latencies = state.turns
+    .map(t => t.responseLatencyMs)
+    .filter((l): l is number => l !== null)
+    .sort((a, b) => a - b);
+  const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+  return {
+    turns: state.turns.length,
+    latencySamples: latencies.length,
+    avgLatencyMs: average(latencies),
+    p50LatencyMs: latencies.length ? percentile(latencies, 0.5) : null,
+    p95LatencyMs: latencies.length ? percentile(latencies, 0.95) : null,
+    avgJitterMs: average(state.turns.filter(t => t.audioChunks > 1).map(t => t.jitterMs)),
+    underruns: state.turns.reduce((total, t) => total + t.underruns, 0),
+    underrunMs: state.turns.reduce((total, t) => total + t.underrunMs, 0),
+    interruptions: state.interruptions,
+    reconnects: state.reconnects,
+  };
+}
+
+/**
+ * Bug-report friendly snapshot: turn times are converted to wall-clock ISO strings.
+ */
+export function exportLiveMetrics(state: LiveMetricsState, context: Record<string, unknown> = {}): string {
+  const toIso = (at: number | null) =>
+    at === null ? null : new Date(state.wallClockStartedAt + (at - state.sessionStartedAt)).toISOString();
+  const round = (value: number | null) => value === null ? null : Math.round(value * 10) / 10;
+
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    sessionStartedAt: new Date(state.wallClockStartedAt).toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    ...context,
+    summary: summarizeLiveMetrics(state),
+    turns: state.turns.map(t => ({
+      ...t,
+      startedAt: toIso(t.startedAt),
+      endedAt: toIso(t.endedAt),
+      responseLatencyMs: round(t.responseLatencyMs),
+      audioMs: round(t.audioMs),
+      jitterMs: round(t.jitterMs),
+      maxArrivalGapMs: round(t.maxArrivalGapMs),
+      underrunMs: round(t.underrunMs),
+      maxUnderrunMs: round(t.maxUnderrunMs),
+    })),
+  }, null, 2);
+}
@@ -0,0 +1,51 @@
+import { LiveSessionRecord } from '../types';
+
+const STORAGE_KEY = 'velocity_live_sessions';
+export const MAX_SAVED_SESSIONS = 50;
+
+export function loadSessions(): LiveSessionRecord[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load live sessions", e);
+    return [];
+  }
+}
+
+// Drops the oldest sessions until the list fits in the storage quota
+function writeSessions(sessions: LiveSessionRecord[]) {
+  let remaining = sessions.slice(0, MAX_SAVED_SESSIONS);
+  while (remaining.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+      return;
+    } catch (e) {
+      remaining = remaining.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Saves a session, replacing the stored copy with the same id. New sessions go first.
+ */
+export function upsertSession(session: LiveSessionRecord) {
+  const sessions = loadSessions();
+  const index = sessions.findIndex(s => s.id === session.id);
+  if (index === -1) {
+    writeSessions([session, ...sessions]);
+  } else {
+    writeSessions(sessions.map(s => s.id === session.id ? session : s));
+  }
+}
+
+export function deleteSession(id: string): LiveSessionRecord[] {
+  const sessions = loadSessions().filter(s => s.id !== id);
+  writeSessions(sessions);
+  return sessions;
+}
+
+export function clearSessions() {
+  localStorage.removeItem(STORAGE_KEY);
+}
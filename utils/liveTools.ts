@@ -0,0 +1,120 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from "@google/genai";
+import { runSearchQuery, runMapsQuery, runPlannerQuery, runDeepThinking } from "./genai";
+import { parseStudyPlan, studyPlanToMarkdown } from "./studyPlan";
+import { lookupLocation } from "./geolocation";
+
+export interface LiveToolOutcome {
+  response: FunctionResponse;
+  // Markdown to show in the transcript alongside the spoken answer (e.g. the planner table)
+  display?: string;
+}
+
+// Function declarations exposed to the Live model so Smart Tools can be used from voice mode
+export const LIVE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'search_web',
+    description: 'Look up current, real-world information on the web with Google Search. Use for news, facts, prices, or anything that may have changed recently.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'The search query.' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'find_places',
+    description: "Find places, restaurants, shops or routes with Google Maps, near the user's current location when available.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'What to look for, e.g. "quiet cafes open now".' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'create_study_plan',
+    description: 'Create a structured study timetable. The table is shown on screen, so only summarise it briefly out loud.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        goal: { type: Type.STRING, description: 'What the user is studying for, including deadlines, e.g. "chemistry exam next Friday".' },
+      },
+      required: ['goal'],
+    },
+  },
+  {
+    name: 'think_deeply',
+    description: 'Hand a hard reasoning problem (math, logic, code) to a slower, more capable model. Tell the user it may take a moment.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        problem: { type: Type.STRING, description: 'The full problem statement.' },
+      },
+      required: ['problem'],
+    },
+  },
+];
+
+// A function answered inside the app rather than by a Smart Tools backend (e.g. recording a practice score)
+export interface ClientLiveTool {
+  declaration: FunctionDeclaration;
+  run: (args: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export function runClientToolCall(tool: ClientLiveTool, call: FunctionCall): LiveToolOutcome {
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+  try {
+    return { response: respond(tool.run(call.args || {})) };
+  } catch (error: any) {
+    console.error("Client tool error:", error);
+    return { response: respond({ error: error.message || "Tool failed." }) };
+  }
+}
+
+function sourcesFromChunks(chunks: any[]): { title: string; uri: string }[] {
+  return chunks
+    .map(chunk => ({ title: chunk.web?.title || chunk.maps?.title || "Source", uri: chunk.web?.uri || chunk.maps?.uri }))
+    .filter(source => !!source.uri);
+}
+
+/**
+ * Executes a function call issued by the Live model against the matching Smart Tools backend.
+ * Errors are returned to the model as an `error` response rather than thrown.
+ */
+export async function runLiveToolCall(call: FunctionCall): Promise<LiveToolOutcome> {
+  const args = (call.args || {}) as Record<string, string>;
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  try {
+    switch (call.name) {
+      case 'search_web': {
+        const res = await runSearchQuery(args.query || '');
+        return { response: respond({ output: res.text, sources: sourcesFromChunks(res.chunks) }) };
+      }
+      case 'find_places': {
+        const res = await runMapsQuery(args.query || '', await lookupLocation());
+        return { response: respond({ output: res.text, sources: sourcesFromChunks(res.chunks) }) };
+      }
+      case 'create_study_plan': {
+        const output = await runPlannerQuery(args.goal || '');
+        const parsed = parseStudyPlan(output);
+        const plan = parsed ? studyPlanToMarkdown(parsed) : output;
+        return {
+          response: respond({ output: plan, note: 'The plan is already displayed to the user as a table.' }),
+          display: plan,
+        };
+      }
+      case 'think_deeply': {
+        const answer = await runDeepThinking(args.problem || '');
+        return { response: respond({ output: answer }) };
+      }
+      default:
+        return { response: respond({ error: `Unknown function: ${call.name}` }) };
+    }
+  } catch (error: any) {
+    console.error("Live tool error:", error);
+    return { response: respond({ error: error.message || "Tool failed." }) };
+  }
+}
@@ -0,0 +1,29 @@
+import { GoogleGenAI, LiveConnectConfig, LiveConnectParameters, Session } from '@google/genai';
+
+/**
+ * The subset of a Live API session the app talks to.
+ */
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+/**
+ * Opens Live sessions. `useLiveGemini` only depends on this interface, so the real
+ * Gemini connection can be swapped for the scripted fake in `fakeLiveTransport.ts`.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+// Affective dialog and proactive audio are only served by the v1alpha endpoint
+const needsAlphaApi = (config?: LiveConnectConfig) => !!(config?.enableAffectiveDialog || config?.proactivity);
+
+export function createGeminiTransport(apiKey: string): LiveTransport {
+  const ai = new GoogleGenAI({ apiKey });
+  let alpha: GoogleGenAI | null = null;
+  return {
+    connect: (params) => {
+      if (!needsAlphaApi(params.config)) return ai.live.connect(params);
+      alpha = alpha || new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+      return alpha.live.connect(params);
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { TranscriptMessage } from '../types';
+import { summarizeConversation } from './genai';
+
+const STORAGE_KEY = 'velocity_live_memory';
+const ENABLED_KEY = 'velocity_live_memory_enabled';
+
+export interface ModeMemory {
+  summary: string;
+  updatedAt: number;
+}
+
+export function isMemoryEnabled(): boolean {
+  return localStorage.getItem(ENABLED_KEY) === 'true';
+}
+
+export function setMemoryEnabled(enabled: boolean) {
+  localStorage.setItem(ENABLED_KEY, String(enabled));
+}
+
+// Memories keyed by mode id
+export function loadMemories(): Record<string, ModeMemory> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load memories", e);
+    return {};
+  }
+}
+
+export function saveMemory(modeId: string, summary: string) {
+  const memories = loadMemories();
+  if (summary.trim()) {
+    memories[modeId] = { summary: summary.trim(), updatedAt: Date.now() };
+  } else {
+    delete memories[modeId];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memories));
+}
+
+export function clearMemories() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Appends the stored memory for a mode to its system instruction.
+ */
+export function withMemory(systemInstruction: string, modeId: string): string {
+  const memory = loadMemories()[modeId];
+  if (!memory) return systemInstruction;
+  return `${systemInstruction}
+
+What you remember about this user from earlier conversations (use it naturally, don't recite it):
+${memory.summary}`;
+}
+
+/**
+ * Folds a finished conversation into the mode's memory. Sessions without a real exchange are skipped.
+ */
+export async function rememberConversation(modeId: string, messages: TranscriptMessage[]): Promise<void> {
+  const spoken = messages.filter(m => !m.toolName && m.text.trim());
+  if (!spoken.some(m => m.role === 'user') || !spoken.some(m => m.role === 'assistant')) return;
+
+  const transcript = spoken.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text.trim()}`).join('\n');
+  const previous = loadMemories()[modeId]?.summary;
+  try {
+    const summary = await summarizeConversation(transcript, previous);
+    if (summary) saveMemory(modeId, summary);
+  } catch (e) {
+    console.warn("Could not update conversation memory", e);
+  }
+}
@@ -0,0 +1,135 @@
+import { NegotiationDebrief, NegotiationScenario, TranscriptMessage } from '../types';
+import { runNegotiationDebrief } from './genai';
+
+const STORAGE_KEY = 'velocity_negotiation_scenarios';
+
+// Sent as a prompt when the scenario's clock runs out; never part of the transcript the debrief scores
+export const TIME_UP_PROMPT = '[The time limit has been reached. Close the negotiation now and state the outcome.]';
+
+const DEFAULT_SCENARIOS: NegotiationScenario[] = [
+  {
+    id: 'saas-renewal',
+    name: 'SaaS Contract Renewal',
+    userRole: 'buyer',
+    counterpartRole: 'Account executive at the software vendor, under pressure to hit quarterly targets',
+    product: 'Annual renewal of 200 seats of a project management platform',
+    currency: 'USD',
+    priceFloor: 40000,
+    priceCeiling: 60000,
+    walkAwayPrice: 46000,
+    timeLimitMinutes: 10,
+    notes: 'Last year the user paid $48,000. The vendor has just announced a 15% list price increase.',
+  },
+  {
+    id: 'used-car',
+    name: 'Selling a Used Car',
+    userRole: 'seller',
+    counterpartRole: 'Private buyer who has seen three similar cars this week',
+    product: 'A 2019 hatchback with 60,000 miles and a full service history',
+    currency: 'USD',
+    priceFloor: 11000,
+    priceCeiling: 15000,
+    walkAwayPrice: 13500,
+    timeLimitMinutes: 5,
+  },
+];
+
+export function loadScenarios(): NegotiationScenario[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_SCENARIOS;
+  } catch (e) {
+    console.error("Failed to load negotiation scenarios", e);
+    return DEFAULT_SCENARIOS;
+  }
+}
+
+export function saveScenarios(scenarios: NegotiationScenario[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
+
+export const createScenarioId = () => `scenario-${Date.now().toString(36)}`;
+
+/**
+ * What is wrong with a scenario, or an empty list when it can be used.
+ */
+export function scenarioProblems(scenario: NegotiationScenario): string[] {
+  const problems: string[] = [];
+  if (!scenario.name.trim()) problems.push('Give the scenario a name.');
+  if (!scenario.product.trim()) problems.push('Describe what is being negotiated.');
+  if (!scenario.counterpartRole.trim()) problems.push('Describe the counterpart.');
+  if (!(scenario.priceFloor >= 0) || !(scenario.priceCeiling > scenario.priceFloor)) {
+    problems.push('The price range needs a lower bound below the upper bound.');
+  } else if (scenario.walkAwayPrice < scenario.priceFloor || scenario.walkAwayPrice > scenario.priceCeiling) {
+    problems.push('The walk-away point must lie within the price range.');
+  }
+  if (!(scenario.timeLimitMinutes > 0)) problems.push('Set a time limit.');
+  return problems;
+}
+
+const formatPrice = (scenario: NegotiationScenario, value: number) =>
+  `${value.toLocaleString('en-US')} ${scenario.currency}`;
+
+// The facts both sides know, shared by the role-play instruction and the debrief
+const scenarioFacts = (scenario: NegotiationScenario) => [
+  `Subject: ${scenario.product}.`,
+  `The user is the ${scenario.userRole}. The counterpart is: ${scenario.counterpartRole}.`,
+  `Realistic deals fall between ${formatPrice(scenario, scenario.priceFloor)} and ${formatPrice(scenario, scenario.priceCeiling)}.`,
+  `Time limit: ${scenario.timeLimitMinutes} minutes.`,
+  ...(scenario.notes?.trim() ? [`Background: ${scenario.notes.trim()}`] : []),
+];
+
+/**
+ * Added to the persona's system instruction for the session. The walk-away point is only
+ * known to the model, which is told to keep it secret.
+ */
+export function scenarioInstruction(scenario: NegotiationScenario): string {
+  const counterpartSells = scenario.userRole === 'buyer';
+  return [
+    `NEGOTIATION SCENARIO: ${scenario.name}`,
+    `Stay in character as the counterpart for the whole conversation.`,
+    ...scenarioFacts(scenario),
+    counterpartSells
+      ? `Open high, near ${formatPrice(scenario, scenario.priceCeiling)}. Never agree to less than ${formatPrice(scenario, scenario.walkAwayPrice)}.`
+      : `Open low, near ${formatPrice(scenario, scenario.priceFloor)}. Never agree to more than ${formatPrice(scenario, scenario.walkAwayPrice)}.`,
+    'That limit is secret: never reveal it or hint at its exact value. Trade every concession for something in return.',
+    'When a deal is agreed, you walk away, or the time runs out, state the outcome clearly: the final price and terms, or that there is no deal.',
+  ].join('\n');
+}
+
+const transcriptForDebrief = (messages: TranscriptMessage[]) => messages
+  .filter(m => !m.toolName && m.text.trim())
+  .map(m => `${m.role === 'user' ? 'User' : 'Counterpart'}: ${m.text.trim()}`)
+  .join('\n');
+
+export const hasNegotiationExchange = (messages: TranscriptMessage[]) =>
+  messages.some(m => m.role === 'user' && m.text.trim()) && messages.some(m => m.role === 'assistant' && !m.toolName && m.text.trim());
+
+const asString = (value: unknown) => typeof value === 'string' ? value : '';
+
+/**
+ * Runs the structured debrief for a finished negotiation. Throws when the model fails.
+ */
+export async function debriefNegotiation(scenario: NegotiationScenario, messages: TranscriptMessage[]): Promise<NegotiationDebrief> {
+  const brief = [
+    ...scenarioFacts(scenario),
+    `The counterpart's secret walk-away point was ${formatPrice(scenario, scenario.walkAwayPrice)}.`,
+  ].join('\n');
+  const raw = await runNegotiationDebrief(brief, transcriptForDebrief(messages));
+
+  const anchoring = (raw.anchoring || {}) as Record<string, unknown>;
+  const firstOfferBy = anchoring.firstOfferBy === 'user' || anchoring.firstOfferBy === 'counterpart' ? anchoring.firstOfferBy : 'none';
+  const score = Number(raw.score);
+  return {
+    score: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+    summary: asString(raw.summary),
+    dealReached: raw.dealReached === true,
+    finalPrice: typeof raw.finalPrice === 'number' ? raw.finalPrice : undefined,
+    concessions: (Array.isArray(raw.concessions) ? raw.concessions : [])
+      .map((c: any) => ({ by: c?.by === 'counterpart' ? 'counterpart' as const : 'user' as const, description: asString(c?.description) }))
+      .filter(c => c.description),
+    anchoring: { firstOfferBy, assessment: asString(anchoring.assessment) },
+    missedOpportunities: (Array.isArray(raw.missedOpportunities) ? raw.missedOpportunities : []).filter((m): m is string => typeof m === 'string'),
+    createdAt: Date.now(),
+  };
+}
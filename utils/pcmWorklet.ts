@@ -0,0 +1,87 @@
+import { downmixToMono, floatToInt16, PCM_SAMPLE_RATE, resamplePcm } from './audio';
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+
+// Number of 16kHz samples batched per message posted back to the main thread (512 is approx 32ms)
+export const PCM_CAPTURE_BATCH_SIZE = 512;
+
+/**
+ * AudioWorklet processor source. Runs on the audio rendering thread: downmixes the mic frames
+ * (128 samples per render quantum), resamples them from the context rate to the target rate,
+ * converts them to Int16 PCM, batches them and transfers each batch to the main thread.
+ * Kept as a string so it can be loaded through a Blob URL without bundler support; the DSP
+ * helpers are the same self-contained functions used by createPcmBlob.
+ */
+const PROCESSOR_SOURCE = `
+const downmixToMono = ${downmixToMono.toString()};
+const resamplePcm = ${resamplePcm.toString()};
+const floatToInt16 = ${floatToInt16.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = options.processorOptions || {};
+    this.batchSize = processorOptions.batchSize || ${PCM_CAPTURE_BATCH_SIZE};
+    this.targetRate = processorOptions.targetRate || ${PCM_SAMPLE_RATE};
+    this.resampler = { position: 0, lastSample: 0, sum: 0, count: 0 };
+    this.buffer = new Int16Array(this.batchSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    // sampleRate is the AudioWorkletGlobalScope's context rate
+    const result = resamplePcm(downmixToMono(channels), sampleRate, this.targetRate, this.resampler);
+    this.resampler = result.state;
+    const pcm = floatToInt16(result.output);
+
+    for (let i = 0; i < pcm.length; i++) {
+      this.buffer[this.offset++] = pcm[i];
+
+      if (this.offset === this.batchSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Int16Array(this.batchSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+export function isAudioWorkletSupported(ctx: BaseAudioContext): boolean {
+  return typeof AudioWorkletNode !== 'undefined' && !!ctx.audioWorklet;
+}
+
+/**
+ * Adds a worklet module given as source text to the context through a Blob URL.
+ * Returns false when AudioWorklet is unavailable so callers can fall back to ScriptProcessorNode.
+ */
+export async function loadWorkletSource(ctx: BaseAudioContext, source: string, label: string): Promise<boolean> {
+  if (!isAudioWorkletSupported(ctx)) {
+    console.warn("AudioWorklet is not supported in this browser, falling back to ScriptProcessorNode.");
+    return false;
+  }
+
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    return true;
+  } catch (e) {
+    console.warn(`Could not load ${label} worklet, falling back to ScriptProcessorNode.`, e);
+    return false;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Registers the PCM capture processor on the given context.
+ */
+export function loadPcmCaptureWorklet(ctx: BaseAudioContext): Promise<boolean> {
+  return loadWorkletSource(ctx, PROCESSOR_SOURCE, 'PCM capture');
+}
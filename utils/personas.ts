@@ -0,0 +1,117 @@
+import { ModeConfig, VadSensitivity } from '../types';
+
+const STORAGE_KEY = 'velocity_custom_personas';
+
+export const VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
+
+export const BUILT_IN_MODES: ModeConfig[] = [
+  {
+    id: 'assistant',
+    name: 'Velocity Assistant',
+    description: 'Ultra-fast general purpose assistant for hands-free operation.',
+    systemInstruction: 'You are Velocity, a super-fast, helpful voice assistant. You respond instantly and concisely. Your goal is to be efficient and precise.',
+    voiceName: 'Kore',
+    icon: 'zap'
+  },
+  {
+    id: 'tutor',
+    name: 'Language Tutor',
+    description: 'Instant pronunciation feedback and conversation practice.',
+    systemInstruction: 'You are a strict but helpful language tutor. Correct pronunciation errors immediately. If the user is speaking, listen carefully. If they make a mistake, stop them gently and correct it before moving on. Speak clearly.',
+    voiceName: 'Puck',
+    icon: 'message-square'
+  },
+  {
+    id: 'negotiator',
+    name: 'Hard Negotiator',
+    description: 'Simulate high-pressure negotiation scenarios in real-time.',
+    systemInstruction: 'You are a tough negotiator in a business deal. You are hard to please, interrupt if the user is weak, and demand value. Do not give in easily.',
+    voiceName: 'Fenrir',
+    icon: 'user'
+  }
+];
+
+export const isBuiltInMode = (id: string) => BUILT_IN_MODES.some(mode => mode.id === id);
+
+export const createModeId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function loadCustomModes(): ModeConfig[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load custom personas", e);
+    return [];
+  }
+}
+
+export function saveCustomModes(modes: ModeConfig[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(modes));
+}
+
+export function duplicateMode(mode: ModeConfig): ModeConfig {
+  return { ...mode, id: createModeId(), name: `${mode.name} (copy)` };
+}
+
+export function exportModes(modes: ModeConfig[]): string {
+  return JSON.stringify({ personas: modes }, null, 2);
+}
+
+// Keeps only the optional live settings that have the right type
+function liveSettingsFrom(entry: Record<string, unknown>): Partial<ModeConfig> {
+  const settings: Partial<ModeConfig> = {};
+  if (typeof entry.model === 'string' && entry.model) settings.model = entry.model;
+  if (typeof entry.temperature === 'number' && entry.temperature >= 0 && entry.temperature <= 2) settings.temperature = entry.temperature;
+  if (typeof entry.languageCode === 'string' && entry.languageCode) settings.languageCode = entry.languageCode;
+  (['searchGrounding', 'functionCalls', 'affectiveDialog', 'proactiveAudio'] as const).forEach(flag => {
+    if (typeof entry[flag] === 'boolean') settings[flag] = entry[flag] as boolean;
+  });
+  if (Object.values(VadSensitivity).includes(entry.vadSensitivity as VadSensitivity)) settings.vadSensitivity = entry.vadSensitivity as VadSensitivity;
+  return settings;
+}
+
+/**
+ * Reads personas from an export file (or a bare persona / array of personas).
+ * Throws with a user-facing message when nothing usable is found.
+ */
+export function parseModes(json: string): ModeConfig[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { personas?: unknown }).personas)
+      ? (data as { personas: unknown[] }).personas
+      : [data];
+
+  const modes = entries.flatMap((entry): ModeConfig[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { id, name, description, systemInstruction, voiceName, icon } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || typeof systemInstruction !== 'string' || !systemInstruction.trim()) return [];
+    return [{
+      ...liveSettingsFrom(entry as Record<string, unknown>),
+      // Built-in ids are reserved, so an exported copy of one comes back as a new persona
+      id: typeof id === 'string' && id && !isBuiltInMode(id) ? id : createModeId(),
+      name: name.trim(),
+      description: typeof description === 'string' ? description : '',
+      systemInstruction,
+      voiceName: typeof voiceName === 'string' && VOICES.includes(voiceName) ? voiceName : VOICES[0],
+      icon: typeof icon === 'string' ? icon : undefined,
+    }];
+  });
+
+  if (modes.length === 0) throw new Error('No personas found. Each needs a name and a system instruction.');
+  return modes;
+}
+
+/**
+ * Adds imported personas to the custom list. Ones with an id already in the list replace it.
+ */
+export function mergeModes(existing: ModeConfig[], imported: ModeConfig[]): ModeConfig[] {
+  const importedIds = new Set(imported.map(mode => mode.id));
+  return [...existing.filter(mode => !importedIds.has(mode.id)), ...imported];
+}
@@ -0,0 +1,154 @@
+/**
+ * Schedules model audio chunks back to back on an AudioContext.
+ *
+ * - Jitter buffer: when playback starts (or restarts after running dry) the first chunk is
+ *   held back by a small buffer that grows with how late chunks have been arriving.
+ * - Fades: consecutive chunks are sample-continuous and join untouched, but every chunk
+ *   carries a tentative fade-out at its tail that is cancelled when the next chunk arrives
+ *   in time. Where the stream does break (underrun, interruption) the old audio fades out
+ *   and the new audio fades in instead of clicking.
+ * - Played-time tracking: knows how much of the current model turn has actually come out of
+ *   the speakers, so an interruption can cut the transcript to what the user heard.
+ */
+
+export interface PlaybackSchedulerOptions {
+  minBufferMs?: number; // Prebuffer with perfectly timed chunks
+  maxBufferMs?: number; // Upper bound however bad the network gets
+  fadeMs?: number;      // Length of fade-ins/outs at discontinuities
+}
+
+export interface ScheduledChunk {
+  startAt: number;    // Context time the chunk starts playing
+  underrunMs: number; // How long playback had been dry when this chunk arrived mid-turn (0 if it hadn't)
+  bufferMs: number;   // Jitter buffer applied, 0 when the chunk joined queued audio
+}
+
+export interface PlaybackScheduler {
+  enqueue(buffer: AudioBuffer, receivedAt?: number): ScheduledChunk;
+  stop(): number;        // Fades out everything queued; returns ms of the current turn that was heard
+  endTurn(): void;       // The model finished its turn; the next chunk starts a new one
+  playedMs(): number;    // Audio of the current turn that has played so far
+  receivedMs(): number;  // Audio of the current turn received so far
+  bufferMs(): number;    // Current jitter buffer target
+  isPlaying(): boolean;
+}
+
+const DEFAULT_OPTIONS: Required<PlaybackSchedulerOptions> = {
+  minBufferMs: 40,
+  maxBufferMs: 400,
+  fadeMs: 5,
+};
+
+export function createPlaybackScheduler(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  options: PlaybackSchedulerOptions = {}
+): PlaybackScheduler {
+  const { minBufferMs, maxBufferMs, fadeMs } = { ...DEFAULT_OPTIONS, ...options };
+  const fade = fadeMs / 1000;
+
+  const active = new Map<AudioBufferSourceNode, GainNode>();
+  let nextStartTime = 0;
+  let tail: { gain: GainNode; endAt: number } | null = null; // Last scheduled chunk and its tentative fade-out
+
+  // Late-arrival estimate (EWMA of how much later than real time chunks arrive)
+  let latenessMs = 0;
+  let lastArrival: { at: number; audioMs: number } | null = null;
+
+  // Current turn
+  let segments: { startAt: number; duration: number }[] = [];
+  let turnReceivedMs = 0;
+
+  const targetBufferMs = () => Math.min(maxBufferMs, Math.max(minBufferMs, minBufferMs + 2 * latenessMs));
+
+  const playedMs = () => {
+    const now = ctx.currentTime;
+    return segments.reduce((total, s) => total + Math.min(s.duration, Math.max(0, now - s.startAt)), 0) * 1000;
+  };
+
+  return {
+    enqueue(buffer: AudioBuffer, receivedAt: number = performance.now()): ScheduledChunk {
+      const now = ctx.currentTime;
+      const audioMs = buffer.duration * 1000;
+
+      // Bursts of early chunks are harmless; only lateness beyond real time grows the buffer
+      if (lastArrival) {
+        const late = Math.max(0, receivedAt - lastArrival.at - lastArrival.audioMs);
+        latenessMs += (late - latenessMs) / 8;
+      }
+      lastArrival = { at: receivedAt, audioMs };
+
+      const gain = ctx.createGain();
+      gain.connect(destination);
+
+      let startAt: number;
+      let underrunMs = 0;
+      let bufferMs = 0;
+      if (tail && nextStartTime > now) {
+        // Joins queued audio: keep the previous chunk at full volume to the end
+        startAt = nextStartTime;
+        tail.gain.gain.cancelScheduledValues(tail.endAt - fade);
+        tail.gain.gain.setValueAtTime(1, tail.endAt - fade);
+      } else {
+        if (segments.length > 0 && nextStartTime > 0) underrunMs = (now - nextStartTime) * 1000;
+        bufferMs = targetBufferMs();
+        startAt = now + bufferMs / 1000;
+        gain.gain.setValueAtTime(0, startAt);
+        gain.gain.linearRampToValueAtTime(1, startAt + fade);
+      }
+
+      const endAt = startAt + buffer.duration;
+      if (buffer.duration > 2 * fade) {
+        gain.gain.setValueAtTime(1, endAt - fade);
+        gain.gain.linearRampToValueAtTime(0, endAt);
+      }
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(gain);
+      source.start(startAt);
+      active.set(source, gain);
+      source.onended = () => {
+        active.delete(source);
+        gain.disconnect();
+      };
+
+      tail = { gain, endAt };
+      nextStartTime = endAt;
+      segments.push({ startAt, duration: buffer.duration });
+      turnReceivedMs += audioMs;
+
+      return { startAt, underrunMs, bufferMs };
+    },
+
+    stop(): number {
+      const heard = playedMs();
+      const now = ctx.currentTime;
+      active.forEach((gain, source) => {
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(0, now + fade);
+        try { source.stop(now + fade); } catch (e) { /* already stopped */ }
+      });
+      active.clear();
+      nextStartTime = 0;
+      tail = null;
+      lastArrival = null;
+      segments = [];
+      turnReceivedMs = 0;
+      return heard;
+    },
+
+    endTurn() {
+      segments = [];
+      turnReceivedMs = 0;
+      // The pause between turns says nothing about network jitter
+      lastArrival = null;
+    },
+
+    playedMs,
+    receivedMs: () => turnReceivedMs,
+    bufferMs: targetBufferMs,
+    isPlaying: () => active.size > 0,
+  };
+}
@@ -0,0 +1,175 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { PracticeAttempt, PracticeList, PronunciationScore } from '../types';
+import { diffWords, normalizeWord, splitWords } from './wordDiff';
+
+const LISTS_KEY = 'velocity_practice_lists';
+const ATTEMPTS_KEY = 'velocity_practice_attempts';
+const MAX_SAVED_ATTEMPTS = 500;
+
+// Below this (word accuracy or tutor score) a phrase is suggested for another try
+export const RETRY_THRESHOLD = 80;
+
+export const SCORE_PRONUNCIATION_TOOL = 'score_pronunciation';
+
+const DEFAULT_PRACTICE_LISTS: PracticeList[] = [
+  {
+    id: 'spanish-travel',
+    name: 'Spanish: Travel',
+    phrases: [
+      '¿Dónde está la estación de tren?',
+      'Quisiera una mesa para dos, por favor.',
+      '¿Cuánto cuesta un billete de ida y vuelta?',
+      'Perdone, no hablo español muy bien.',
+      '¿Me puede recomendar un restaurante cerca de aquí?',
+    ],
+  },
+  {
+    id: 'english-tongue-twisters',
+    name: 'English: Tongue Twisters',
+    phrases: [
+      'She sells seashells by the seashore.',
+      'Red lorry, yellow lorry.',
+      'How much wood would a woodchuck chuck?',
+      'Unique New York, unique New York.',
+    ],
+  },
+];
+
+export function loadPracticeLists(): PracticeList[] {
+  try {
+    const saved = localStorage.getItem(LISTS_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_PRACTICE_LISTS;
+  } catch (e) {
+    console.error("Failed to load practice lists", e);
+    return DEFAULT_PRACTICE_LISTS;
+  }
+}
+
+export function savePracticeLists(lists: PracticeList[]) {
+  localStorage.setItem(LISTS_KEY, JSON.stringify(lists));
+}
+
+/**
+ * Builds a list from an imported file: a JSON array of phrases, a JSON `{ name, phrases }`
+ * object, or plain text with one phrase per line.
+ */
+export function parsePracticeList(fileName: string, content: string): PracticeList {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported phrases';
+  let name = fallbackName;
+  let phrases: unknown[];
+  try {
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) {
+      phrases = data;
+    } else {
+      phrases = Array.isArray(data?.phrases) ? data.phrases : [];
+      if (typeof data?.name === 'string' && data.name.trim()) name = data.name.trim();
+    }
+  } catch (e) {
+    phrases = content.split(/\r?\n/);
+  }
+
+  const cleaned = phrases
+    .filter((p): p is string => typeof p === 'string')
+    .map(p => p.trim())
+    .filter(p => splitWords(p).length > 0);
+  if (cleaned.length === 0) throw new Error('No phrases found. Use one phrase per line or a JSON list.');
+
+  return { id: `list-${Date.now().toString(36)}`, name, phrases: Array.from(new Set(cleaned)) };
+}
+
+export function loadAttempts(): PracticeAttempt[] {
+  try {
+    const saved = localStorage.getItem(ATTEMPTS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load practice attempts", e);
+    return [];
+  }
+}
+
+// Oldest first; only the most recent attempts are kept
+export function saveAttempts(attempts: PracticeAttempt[]) {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts.slice(-MAX_SAVED_ATTEMPTS)));
+}
+
+export function createAttempt(listId: string, phrase: string, heard: string, timestamp: number = Date.now()): PracticeAttempt {
+  const diff = diffWords(phrase, heard);
+  return {
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 6)}`,
+    listId,
+    phrase,
+    heard,
+    missedWords: diff.missedWords,
+    extraWords: diff.extraWords,
+    accuracy: diff.accuracy,
+    timestamp,
+  };
+}
+
+export const samePhrase = (a: string, b: string) =>
+  splitWords(a).map(normalizeWord).join(' ') === splitWords(b).map(normalizeWord).join(' ');
+
+export const needsRetry = (attempt: PracticeAttempt) =>
+  attempt.accuracy < RETRY_THRESHOLD || (attempt.score !== undefined && attempt.score.score < RETRY_THRESHOLD);
+
+export interface PhraseProgress {
+  phrase: string;
+  attempts: PracticeAttempt[]; // Oldest first
+  bestAccuracy: number | null;
+  latest: PracticeAttempt | null;
+  needsRetry: boolean;
+}
+
+export function phraseProgress(list: PracticeList, attempts: PracticeAttempt[]): PhraseProgress[] {
+  return list.phrases.map(phrase => {
+    const forPhrase = attempts.filter(a => a.listId === list.id && a.phrase === phrase);
+    const latest = forPhrase[forPhrase.length - 1] || null;
+    return {
+      phrase,
+      attempts: forPhrase,
+      bestAccuracy: forPhrase.length ? Math.max(...forPhrase.map(a => a.accuracy)) : null,
+      latest,
+      needsRetry: latest ? needsRetry(latest) : false,
+    };
+  });
+}
+
+/**
+ * Added to the persona's system instruction while practising.
+ */
+export function practiceInstruction(list: PracticeList): string {
+  return [
+    'PRONUNCIATION PRACTICE',
+    `The user is practising these phrases (${list.name}):`,
+    ...list.phrases.map((phrase, i) => `${i + 1}. ${phrase}`),
+    '',
+    'When the user asks for a phrase, say it once, clearly and at a natural pace, then let them repeat it.',
+    `After every attempt, call ${SCORE_PRONUNCIATION_TOOL} with the phrase, a score from 0 to 100 for how accurately it was pronounced, the words that were mispronounced or left out, and one sentence of feedback. Then give that feedback out loud in a few words.`,
+  ].join('\n');
+}
+
+export const SCORE_PRONUNCIATION_DECLARATION: FunctionDeclaration = {
+  name: SCORE_PRONUNCIATION_TOOL,
+  description: "Record your assessment of the user's latest attempt at a practice phrase.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      phrase: { type: Type.STRING, description: 'The target phrase exactly as listed.' },
+      score: { type: Type.NUMBER, description: 'Pronunciation accuracy from 0 (unintelligible) to 100 (native-like).' },
+      mispronouncedWords: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Words that were mispronounced or missing.' },
+      feedback: { type: Type.STRING, description: 'One sentence on what to improve.' },
+    },
+    required: ['phrase', 'score', 'mispronouncedWords', 'feedback'],
+  },
+};
+
+export function parsePronunciationScore(args: Record<string, unknown>): PronunciationScore {
+  const score = Number(args.score);
+  return {
+    phrase: typeof args.phrase === 'string' ? args.phrase : '',
+    score: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+    mispronouncedWords: Array.isArray(args.mispronouncedWords) ? args.mispronouncedWords.filter((w): w is string => typeof w === 'string') : [],
+    feedback: typeof args.feedback === 'string' ? args.feedback : '',
+  };
+}
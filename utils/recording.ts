@@ -0,0 +1,212 @@
+import { TranscriptMessage } from '../types';
+import { loadWorkletSource } from './pcmWorklet';
+
+export const STEREO_RECORDER_PROCESSOR = 'stereo-recorder-processor';
+
+// Frames batched per message from the recorder worklet. At 24kHz this is about 43ms,
+// which is also the most audio that can be lost when a recording is stopped.
+export const RECORDER_BATCH_FRAMES = 1024;
+
+/**
+ * Interleaves two channels into 16-bit stereo PCM. A missing channel is recorded as silence.
+ * Self-contained so it can be embedded in the worklet source.
+ */
+export function interleaveStereoInt16(left: Float32Array | undefined, right: Float32Array | undefined, frames: number): Int16Array {
+  const output = new Int16Array(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    const l = left ? Math.max(-1, Math.min(1, left[i])) : 0;
+    const r = right ? Math.max(-1, Math.min(1, right[i])) : 0;
+    output[i * 2] = l < 0 ? l * 32768 : l * 32767;
+    output[i * 2 + 1] = r < 0 ? r * 32768 : r * 32767;
+  }
+  return output;
+}
+
+const PROCESSOR_SOURCE = `
+const interleaveStereoInt16 = ${interleaveStereoInt16.toString()};
+
+class StereoRecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Int16Array(${RECORDER_BATCH_FRAMES} * 2);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    const pcm = interleaveStereoInt16(channels[0], channels[1], channels[0].length);
+    for (let i = 0; i < pcm.length; i++) {
+      this.buffer[this.offset++] = pcm[i];
+
+      if (this.offset === this.buffer.length) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Int16Array(${RECORDER_BATCH_FRAMES} * 2);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${STEREO_RECORDER_PROCESSOR}', StereoRecorderProcessor);
+`;
+
+export function loadStereoRecorderWorklet(ctx: BaseAudioContext): Promise<boolean> {
+  return loadWorkletSource(ctx, PROCESSOR_SOURCE, 'stereo recorder');
+}
+
+export interface StereoRecorder {
+  sampleRate: number;
+  stop(): Int16Array[]; // Disconnects the taps and returns the interleaved chunks recorded so far
+  setUserStream(userStream: MediaStream): void; // Moves the left channel to a new microphone stream
+}
+
+/**
+ * Records `userStream` into the left channel and `assistantNode` into the right channel,
+ * both inside `ctx` so the two sides share one clock. Nothing is routed to the speakers.
+ * Browsers that refuse to resample a MediaStream into the context (Firefox) record the
+ * assistant side only.
+ */
+export function startStereoRecorder(
+  ctx: AudioContext,
+  userStream: MediaStream,
+  assistantNode: AudioNode,
+  hasWorklet: boolean
+): StereoRecorder {
+  const chunks: Int16Array[] = [];
+
+  // ChannelMergerNode downmixes each input to mono, so each side lands on exactly one channel
+  const merger = ctx.createChannelMerger(2);
+  assistantNode.connect(merger, 0, 1);
+
+  let userSource: MediaStreamAudioSourceNode | null = null;
+  const tapUser = (stream: MediaStream) => {
+    userSource?.disconnect();
+    userSource = null;
+    try {
+      userSource = ctx.createMediaStreamSource(stream);
+      userSource.connect(merger, 0, 0);
+    } catch (e) {
+      console.warn("Could not tap the microphone for recording, recording the assistant only.", e);
+    }
+  };
+  tapUser(userStream);
+
+  let recorderNode: AudioWorkletNode | ScriptProcessorNode;
+  if (hasWorklet) {
+    const node = new AudioWorkletNode(ctx, STEREO_RECORDER_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0, // Output-less worklets are always rendered without reaching the destination
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => chunks.push(event.data);
+    recorderNode = node;
+  } else {
+    const processor = ctx.createScriptProcessor(4096, 2, 1);
+    processor.onaudioprocess = (e) => {
+      const input = e.inputBuffer;
+      chunks.push(interleaveStereoInt16(input.getChannelData(0), input.getChannelData(1), input.length));
+    };
+    // ScriptProcessorNode only runs while pulled by the destination; its output stays silent
+    processor.connect(ctx.destination);
+    recorderNode = processor;
+  }
+  merger.connect(recorderNode);
+
+  return {
+    sampleRate: ctx.sampleRate,
+    stop: () => {
+      try { assistantNode.disconnect(merger); } catch (e) { /* already disconnected */ }
+      userSource?.disconnect();
+      merger.disconnect();
+      recorderNode.disconnect();
+      if ('port' in recorderNode) {
+        recorderNode.port.onmessage = null;
+      } else {
+        recorderNode.onaudioprocess = null;
+      }
+      return chunks;
+    },
+    setUserStream: tapUser,
+  };
+}
+
+/**
+ * Wraps 16-bit interleaved PCM chunks in a WAV (RIFF) container.
+ */
+export function encodeWav(chunks: Int16Array[], sampleRate: number, channels: number): Blob {
+  const dataLength = chunks.reduce((total, chunk) => total + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);                        // fmt chunk size
+  header.setUint16(20, 1, true);                         // PCM
+  header.setUint16(22, channels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channels * 2, true); // Byte rate
+  header.setUint16(32, channels * 2, true);              // Block align
+  header.setUint16(34, 16, true);                        // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataLength, true);
+
+  return new Blob([header.buffer, ...chunks], { type: 'audio/wav' });
+}
+
+export interface RecordingSidecar {
+  startedAt: string;
+  durationSeconds: number;
+  sampleRate: number;
+  channels: { left: 'user'; right: 'assistant' };
+  messages: {
+    id: string;
+    role: TranscriptMessage['role'];
+    text: string;
+    offsetSeconds: number; // Position in the WAV where the message starts
+    typed?: boolean;
+    toolName?: string;
+  }[];
+}
+
+/**
+ * Transcript timestamps for the messages that fall inside a recording, relative to its start.
+ */
+export function buildRecordingSidecar(
+  messages: TranscriptMessage[],
+  startedAt: number,
+  durationSeconds: number,
+  sampleRate: number
+): RecordingSidecar {
+  const endedAt = startedAt + durationSeconds * 1000;
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    durationSeconds,
+    sampleRate,
+    channels: { left: 'user', right: 'assistant' },
+    messages: messages
+      .filter(m => m.timestamp >= startedAt && m.timestamp <= endedAt)
+      .map(m => ({
+        id: m.id,
+        role: m.role,
+        text: m.text,
+        offsetSeconds: Math.round(m.timestamp - startedAt) / 1000,
+        ...(m.isTyped ? { typed: true } : {}),
+        ...(m.toolName ? { toolName: m.toolName } : {}),
+      })),
+  };
+}
+
+export interface LiveRecording {
+  audioUrl: string;      // Object URL of the stereo WAV
+  transcriptUrl: string; // Object URL of the sidecar JSON
+  fileName: string;      // Base name without extension
+  durationSeconds: number;
+}
@@ -0,0 +1,86 @@
+import { LiveSessionRecord, NegotiationDebrief, TranscriptMessage } from '../types';
+
+// Subtitle cues last until the next message, clamped to a readable range
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 8000;
+
+const speakerLabel = (session: LiveSessionRecord, message: TranscriptMessage) =>
+  message.role === 'user' ? 'You' : session.modeName;
+
+export function sessionFileName(session: LiveSessionRecord): string {
+  const stamp = new Date(session.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `flashtalk-${session.modeId}-${stamp}`;
+}
+
+const debriefToMarkdown = (debrief: NegotiationDebrief, currency: string = ''): string[] => [
+  `## Debrief: ${debrief.score}/100`,
+  '',
+  `- **Outcome:** ${debrief.dealReached ? `Deal${debrief.finalPrice !== undefined ? ` at ${debrief.finalPrice} ${currency}`.trimEnd() : ''}` : 'No deal'}`,
+  `- **Anchoring:** First offer by ${debrief.anchoring.firstOfferBy}. ${debrief.anchoring.assessment}`,
+  '',
+  debrief.summary,
+  '',
+  ...(debrief.concessions.length ? ['### Concessions', '', ...debrief.concessions.map(c => `- **${c.by === 'user' ? 'You' : 'Counterpart'}:** ${c.description}`), ''] : []),
+  ...(debrief.missedOpportunities.length ? ['### Missed Opportunities', '', ...debrief.missedOpportunities.map(m => `- ${m}`), ''] : []),
+];
+
+export function sessionToMarkdown(session: LiveSessionRecord): string {
+  const lines = [
+    `# ${session.modeName}`,
+    '',
+    `- **Started:** ${new Date(session.startedAt).toLocaleString()}`,
+    `- **Ended:** ${new Date(session.endedAt).toLocaleString()}`,
+    `- **Voice:** ${session.voiceName}`,
+    ...(session.scenario ? [`- **Scenario:** ${session.scenario.name}`] : []),
+    '',
+    ...(session.debrief ? debriefToMarkdown(session.debrief, session.scenario?.currency) : []),
+  ];
+  session.messages.forEach(message => {
+    const time = new Date(message.timestamp).toLocaleTimeString();
+    if (message.toolName) {
+      lines.push(`### ${message.toolName.replace(/_/g, ' ')} (${time})`, '', message.text, '');
+    } else {
+      const note = message.isTyped ? ' (typed)' : message.wasInterrupted ? ' (interrupted)' : '';
+      lines.push(`**${speakerLabel(session, message)}**${note} _${time}_`, '', message.text, '');
+    }
+  });
+  return lines.join('\n');
+}
+
+export function sessionToJson(session: LiveSessionRecord): string {
+  return JSON.stringify(session, null, 2);
+}
+
+// HH:MM:SS,mmm
+const srtTimestamp = (ms: number) => {
+  const clamped = Math.max(0, Math.round(ms));
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor(clamped / 60000) % 60;
+  const seconds = Math.floor(clamped / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(clamped % 1000, 3)}`;
+};
+
+/**
+ * SubRip subtitles timed from the session start. Tool results are left out since they
+ * were never spoken.
+ */
+export function sessionToSrt(session: LiveSessionRecord): string {
+  const spoken = session.messages.filter(m => !m.toolName);
+  return spoken.map((message, index) => {
+    const start = message.timestamp - session.startedAt;
+    const next = spoken[index + 1];
+    const untilNext = next ? next.timestamp - message.timestamp : MAX_CUE_MS;
+    const end = start + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, untilNext));
+    return `${index + 1}\n${srtTimestamp(start)} --> ${srtTimestamp(end)}\n${speakerLabel(session, message)}: ${message.text.trim()}\n`;
+  }).join('\n');
+}
+
+export function downloadTextFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,179 @@
+import { StudyPlan, StudyPlanEntry } from '../types';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DEFAULT_SESSION_MINUTES = 60;
+
+export const emptyEntry = (): StudyPlanEntry => ({ day: '', startTime: '', endTime: '', subject: '', topic: '', status: 'todo' });
+
+const entryFrom = (raw: any): StudyPlanEntry => ({
+  day: String(raw?.day ?? ''),
+  startTime: String(raw?.startTime ?? ''),
+  endTime: String(raw?.endTime ?? ''),
+  subject: String(raw?.subject ?? ''),
+  topic: String(raw?.topic ?? ''),
+  status: raw?.status === 'done' ? 'done' : 'todo',
+});
+
+// Every complete object in the entries array of a JSON stream that is still arriving
+function completeEntries(text: string): StudyPlanEntry[] {
+  const start = text.indexOf('[', text.indexOf('"entries"'));
+  if (text.indexOf('"entries"') < 0 || start < 0) return [];
+
+  const entries: StudyPlanEntry[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth++ === 0) objectStart = i;
+    } else if (char === '}') {
+      if (--depth === 0) {
+        try { entries.push(entryFrom(JSON.parse(text.slice(objectStart, i + 1)))); } catch (e) { /* skip */ }
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Reads planner output. Partial JSON from a stream (or one that was stopped) yields the
+ * summary and entries received so far. Anything that isn't JSON, such as plans saved as
+ * markdown tables before the planner used structured output, gives null.
+ */
+export function parseStudyPlan(text: string): StudyPlan | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const raw = JSON.parse(trimmed);
+    return {
+      summary: String(raw.summary ?? ''),
+      entries: Array.isArray(raw.entries) ? raw.entries.map(entryFrom) : [],
+    };
+  } catch (e) {
+    const summary = trimmed.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    let summaryText = '';
+    try { summaryText = summary ? JSON.parse(`"${summary[1]}"`) : ''; } catch (err) { /* incomplete escape */ }
+    return { summary: summaryText, entries: completeEntries(trimmed) };
+  }
+}
+
+export const serializeStudyPlan = (plan: StudyPlan) => JSON.stringify(plan);
+
+export function studyPlanToMarkdown(plan: StudyPlan): string {
+  const cell = (value: string) => value.replace(/\|/g, '/').replace(/\n/g, ' ');
+  const rows = plan.entries.map(e =>
+    `| ${cell(e.day)} | ${cell(e.startTime)}–${cell(e.endTime)} | ${cell(e.subject)} | ${cell(e.topic)} | ${e.status === 'done' ? '[x]' : '[ ]'} |`);
+  return [plan.summary, '', '| Day | Time | Subject | Topic | Status |', '| --- | --- | --- | --- | --- |', ...rows].join('\n');
+}
+
+export function studyPlanToCsv(plan: StudyPlan): string {
+  const field = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = plan.entries.map(e => [e.day, e.startTime, e.endTime, e.subject, e.topic, e.status].map(field).join(','));
+  return ['Day,Start,End,Subject,Topic,Status', ...rows].join('\r\n');
+}
+
+// An ISO date, or the next such weekday on or after `from`
+function resolveDay(day: string, from: Date): Date | null {
+  const iso = day.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const name = day.trim().toLowerCase();
+  const weekday = name.length >= 3 ? WEEKDAYS.findIndex(w => w.startsWith(name)) : -1;
+  if (weekday < 0) return null;
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  date.setDate(date.getDate() + (weekday - date.getDay() + 7) % 7);
+  return date;
+}
+
+// Minutes after midnight for "14:30", "9:00", "2:30 pm" and the like; out-of-range times give null
+function parseTime(time: string): number | null {
+  const match = time.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (minutes > 59) return null;
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    return ((hours % 12) + (match[3] === 'pm' ? 12 : 0)) * 60 + minutes;
+  }
+  return hours > 23 ? null : hours * 60 + minutes;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Floating local time, so the sessions land at the same clock time in any calendar
+const icsLocal = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const icsUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 folding),
+// never splitting a character's UTF-8 bytes
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // The leading space counts towards the 75
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * iCalendar file with one event per session. Sessions whose day or start time can't be read
+ * are left out; a missing or earlier end time gives an hour-long session.
+ */
+export function studyPlanToIcs(plan: StudyPlan, now: Date = new Date()): string {
+  const stamp = icsUtc(now);
+  const events = plan.entries.flatMap((entry, index) => {
+    const date = resolveDay(entry.day, now);
+    const start = parseTime(entry.startTime);
+    if (!date || start === null) return [];
+    const end = parseTime(entry.endTime);
+    const startAt = new Date(date.getTime());
+    startAt.setMinutes(start);
+    const endAt = new Date(date.getTime());
+    endAt.setMinutes(end !== null && end > start ? end : start + DEFAULT_SESSION_MINUTES);
+    return [
+      'BEGIN:VEVENT',
+      `UID:${stamp}-${index}@flashtalk`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsLocal(startAt)}`,
+      `DTEND:${icsLocal(endAt)}`,
+      `SUMMARY:${icsText(entry.topic ? `${entry.subject}: ${entry.topic}` : entry.subject)}`,
+      ...(entry.status === 'done' ? ['DESCRIPTION:Done'] : []),
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FlashTalk//Study Planner//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+    '',
+  ].map(foldLine).join('\r\n');
+}
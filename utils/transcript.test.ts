@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { applyServerMessage, initialTranscriptState, transcriptReducer, TranscriptState } from './transcript';
+import { DEMO_LIVE_SCRIPT, fakeMessages } from './fakeLiveTransport';
+
+// Replays server messages one second apart, as the hook would on arrival
+const replay = (messages: LiveServerMessage[], state: TranscriptState = initialTranscriptState) =>
+  messages.reduce((next, message, i) => applyServerMessage(next, message, 1000 * (i + 1)), state);
+
+const summary = (state: TranscriptState) =>
+  state.messages.map(({ role, text, isPartial }) => ({ role, text, isPartial }));
+
+describe('transcript', () => {
+  it('commits the user turn before the reply and finalizes the reply on turnComplete', () => {
+    const state = replay([
+      fakeMessages.inputTranscription('What time '),
+      fakeMessages.inputTranscription('is it?'),
+      fakeMessages.outputTranscription('It is '),
+      fakeMessages.outputTranscription('noon.'),
+    ]);
+    expect(summary(state)).toEqual([
+      { role: 'user', text: 'What time is it?', isPartial: false },
+      { role: 'assistant', text: 'It is noon.', isPartial: true },
+    ]);
+    expect(state.messages[0].timestamp).toBe(1000); // When the user started speaking
+
+    const done = applyServerMessage(state, fakeMessages.turnComplete(), 5000);
+    expect(summary(done)[1]).toEqual({ role: 'assistant', text: 'It is noon.', isPartial: false });
+    expect(done.pendingOutput).toBe('');
+  });
+
+  it('commits user speech on turnComplete when the model never answered', () => {
+    const state = replay([fakeMessages.inputTranscription('Hello?'), fakeMessages.turnComplete()]);
+    expect(summary(state)).toEqual([{ role: 'user', text: 'Hello?', isPartial: false }]);
+  });
+
+  it('keeps the whole reply when the server reports an interruption', () => {
+    const state = replay([
+      fakeMessages.outputTranscription('Once upon '),
+      fakeMessages.outputTranscription('a time'),
+      fakeMessages.interrupted(),
+      fakeMessages.outputTranscription('Sure.'),
+    ]);
+    expect(summary(state)).toEqual([
+      { role: 'assistant', text: 'Once upon a time', isPartial: false },
+      { role: 'assistant', text: 'Sure.', isPartial: true },
+    ]);
+  });
+
+  it('cuts an interrupted reply back to what was heard', () => {
+    const streaming = replay([fakeMessages.outputTranscription('Once upon '), fakeMessages.outputTranscription('a time')]);
+    const cut = transcriptReducer(streaming, { type: 'interrupted', heardChars: 10 });
+    expect(cut.messages).toHaveLength(1);
+    expect(cut.messages[0]).toMatchObject({ text: 'Once upon', isPartial: false, wasInterrupted: true });
+
+    const unheard = transcriptReducer(streaming, { type: 'interrupted', heardChars: 0 });
+    expect(unheard.messages).toEqual([]);
+  });
+
+  it('adds typed turns after closing the turn in progress', () => {
+    const state = replay([fakeMessages.outputTranscription('Spell it out'), fakeMessages.inputTranscription('Okay, ')]);
+    const typed = transcriptReducer(state, { type: 'typed', text: 'https://example.com' }, 9000);
+    expect(summary(typed)).toEqual([
+      { role: 'assistant', text: 'Spell it out', isPartial: false },
+      { role: 'user', text: 'Okay, ', isPartial: false },
+      { role: 'user', text: 'https://example.com', isPartial: false },
+    ]);
+    expect(typed.messages[2].isTyped).toBe(true);
+  });
+
+  it('keeps a streaming reply last when a tool result arrives', () => {
+    const state = replay([fakeMessages.outputTranscription('Let me check')]);
+    const withTool = transcriptReducer(state, { type: 'toolResult', toolName: 'search', text: 'Found 3 results' });
+    expect(withTool.messages.map(m => m.toolName || m.role)).toEqual(['search', 'assistant']);
+    expect(transcriptReducer(withTool, { type: 'outputTranscription', text: '...' }).messages[1].text).toBe('Let me check...');
+  });
+
+  it('replays the demo script into a finished conversation', () => {
+    const messages = DEMO_LIVE_SCRIPT.flatMap(step => step.type === 'message' ? [step.message] : []);
+    const state = transcriptReducer(replay(messages), { type: 'finalize' });
+    expect(summary(state)).toEqual([
+      { role: 'user', text: 'Hey, can you hear me?', isPartial: false },
+      { role: 'assistant', text: 'Loud and clear! This is the offline fake server talking.', isPartial: false },
+      { role: 'user', text: 'Tell me a long story.', isPartial: false },
+      { role: 'assistant', text: 'Once upon a time, in a city made entirely of ', isPartial: false },
+      { role: 'user', text: 'Actually, never mind.', isPartial: false },
+      { role: 'assistant', text: 'No problem. What else can I do for you?', isPartial: false },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { LiveServerMessage } from '@google/genai';
+import { TranscriptMessage } from '../types';
+
+/**
+ * Transcript state machine for a live conversation. Input/output transcriptions arrive in
+ * fragments, so the text of the turn in progress is buffered until it can be committed.
+ * Pure: the hook keeps the current state in a ref, and the fake transport can replay
+ * recorded server messages through it without a browser.
+ */
+export interface TranscriptState {
+  messages: TranscriptMessage[];
+  pendingInput: string;  // User speech not yet committed as a message
+  pendingInputAt: number; // When the first fragment of pendingInput arrived
+  pendingOutput: string; // Text of the assistant message currently streaming
+}
+
+export type TranscriptEvent =
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted'; heardChars?: number } // heardChars: how much of the streaming reply was played
+  | { type: 'finalize' }
+  | { type: 'typed'; text: string }
+  | { type: 'toolResult'; toolName: string; text: string };
+
+export const initialTranscriptState: TranscriptState = { messages: [], pendingInput: '', pendingInputAt: 0, pendingOutput: '' };
+
+const createMessage = (
+  messages: TranscriptMessage[],
+  role: TranscriptMessage['role'],
+  text: string,
+  now: number,
+  extra: Partial<TranscriptMessage> = {}
+): TranscriptMessage => ({
+  id: `${now}-${messages.length}`,
+  role,
+  text,
+  isPartial: false,
+  timestamp: now,
+  ...extra,
+});
+
+// Commits buffered user speech as a message, stamped with when the user started speaking
+const flushInput = (state: TranscriptState, now: number): TranscriptState => {
+  if (!state.pendingInput.trim()) return { ...state, pendingInput: '' };
+  return {
+    ...state,
+    messages: [
+      ...state.messages,
+      createMessage(state.messages, 'user', state.pendingInput, now, { timestamp: state.pendingInputAt || now }),
+    ],
+    pendingInput: '',
+  };
+};
+
+// Marks the streaming assistant message (if any) as final
+const finalizeOutput = (state: TranscriptState): TranscriptState => {
+  const last = state.messages[state.messages.length - 1];
+  const messages = last && last.isPartial
+    ? [...state.messages.slice(0, -1), { ...last, isPartial: false }]
+    : state.messages;
+  return { ...state, messages, pendingOutput: '' };
+};
+
+export function transcriptReducer(state: TranscriptState, event: TranscriptEvent, now: number = Date.now()): TranscriptState {
+  switch (event.type) {
+    case 'inputTranscription':
+      return {
+        ...state,
+        pendingInput: state.pendingInput + event.text,
+        pendingInputAt: state.pendingInput ? state.pendingInputAt : now,
+      };
+
+    case 'outputTranscription': {
+      // If the model starts speaking, assume the user turn is done.
+      // Flush user text first so it appears BEFORE the assistant response.
+      const flushed = flushInput(state, now);
+      const pendingOutput = flushed.pendingOutput + event.text;
+      const last = flushed.messages[flushed.messages.length - 1];
+      const messages = last && last.role === 'assistant' && last.isPartial
+        ? [...flushed.messages.slice(0, -1), { ...last, text: pendingOutput }]
+        : [...flushed.messages, createMessage(flushed.messages, 'assistant', pendingOutput, now, { isPartial: true })];
+      return { ...flushed, messages, pendingOutput };
+    }
+
+    case 'turnComplete':
+      return finalizeOutput(flushInput(state, now));
+
+    case 'interrupted': {
+      // The user spoke over the assistant; keep what they heard of it and stop extending it
+      const last = state.messages[state.messages.length - 1];
+      if (event.heardChars === undefined || !last || last.role !== 'assistant' || !last.isPartial) {
+        return finalizeOutput(state);
+      }
+      const heard = state.pendingOutput.slice(0, event.heardChars).trimEnd();
+      const messages = heard
+        ? [...state.messages.slice(0, -1), { ...last, text: heard, isPartial: false, wasInterrupted: true }]
+        : state.messages.slice(0, -1);
+      return { ...state, messages, pendingOutput: '' };
+    }
+
+    case 'finalize':
+      return flushInput(finalizeOutput(state), now);
+
+    case 'typed': {
+      const flushed = flushInput(finalizeOutput(state), now);
+      return {
+        ...flushed,
+        messages: [...flushed.messages, createMessage(flushed.messages, 'user', event.text, now, { isTyped: true })],
+      };
+    }
+
+    case 'toolResult': {
+      const toolMessage = createMessage(state.messages, 'assistant', event.text, now, { toolName: event.toolName });
+      // Keep a still-streaming assistant message last so its transcription keeps updating in place
+      const last = state.messages[state.messages.length - 1];
+      const messages = last && last.isPartial
+        ? [...state.messages.slice(0, -1), toolMessage, last]
+        : [...state.messages, toolMessage];
+      return { ...state, messages };
+    }
+  }
+}
+
+/**
+ * Applies the transcript-relevant parts of one server message, in the order the hook handles them.
+ */
+export function applyServerMessage(state: TranscriptState, message: LiveServerMessage, now: number = Date.now()): TranscriptState {
+  const content = message.serverContent;
+  if (!content) return state;
+  if (content.interrupted) return transcriptReducer(state, { type: 'interrupted' }, now);
+
+  let next = state;
+  if (content.inputTranscription) {
+    next = transcriptReducer(next, { type: 'inputTranscription', text: content.inputTranscription.text || '' }, now);
+  }
+  if (content.outputTranscription) {
+    next = transcriptReducer(next, { type: 'outputTranscription', text: content.outputTranscription.text || '' }, now);
+  }
+  if (content.turnComplete) {
+    next = transcriptReducer(next, { type: 'turnComplete' }, now);
+  }
+  return next;
+}
@@ -0,0 +1,62 @@
+export interface VadOptions {
+  minThreshold: number;   // RMS level (0..1) always treated as silence
+  noiseMultiplier: number; // Speech must be this many times louder than the tracked noise floor
+  attackMs: number;       // Sustained energy needed before speech is declared
+  hangoverMs: number;     // Silence tolerated before speech is declared over
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  minThreshold: 0.015,
+  noiseMultiplier: 3,
+  attackMs: 60,
+  hangoverMs: 700,
+};
+
+export interface VadState {
+  speaking: boolean;
+  aboveMs: number;
+  belowMs: number;
+  noiseFloor: number;
+}
+
+export function createVadState(): VadState {
+  return { speaking: false, aboveMs: 0, belowMs: 0, noiseFloor: DEFAULT_VAD_OPTIONS.minThreshold };
+}
+
+/**
+ * Root-mean-square level of a chunk, normalised to 0..1 for both Float32 and Int16 samples.
+ */
+export function computeRms(samples: Float32Array | Int16Array): number {
+  if (samples.length === 0) return 0;
+  const scale = samples instanceof Int16Array ? 1 / 32768 : 1;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] * scale;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Energy-based voice activity detector step. Feed it the RMS level and duration of each
+ * captured chunk; it returns the next state. The noise floor adapts while nobody is speaking,
+ * so steady background noise (fans, office chatter) raises the bar for what counts as speech.
+ */
+export function updateVad(state: VadState, rms: number, chunkMs: number, options: VadOptions = DEFAULT_VAD_OPTIONS): VadState {
+  const threshold = Math.max(options.minThreshold, state.noiseFloor * options.noiseMultiplier);
+  const isLoud = rms > threshold;
+
+  const aboveMs = isLoud ? state.aboveMs + chunkMs : 0;
+  const belowMs = isLoud ? 0 : state.belowMs + chunkMs;
+
+  let speaking = state.speaking;
+  if (!speaking && aboveMs >= options.attackMs) speaking = true;
+  if (speaking && belowMs >= options.hangoverMs) speaking = false;
+
+  // Track the noise floor only from quiet, non-speech chunks
+  const noiseFloor = !speaking && !isLoud
+    ? state.noiseFloor * 0.95 + rms * 0.05
+    : state.noiseFloor;
+
+  return { speaking, aboveMs, belowMs, noiseFloor };
+}
@@ -0,0 +1,27 @@
+// Longest edge of frames sent to the Live API; larger frames only add latency
+export const VIDEO_FRAME_MAX_SIZE = 768;
+export const VIDEO_FRAME_QUALITY = 0.7;
+
+/**
+ * Draws the current frame of a playing video onto the canvas (downscaled to fit
+ * VIDEO_FRAME_MAX_SIZE) and returns it as base64 JPEG, or null if no frame is available yet.
+ */
+export function captureJpegFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxSize: number = VIDEO_FRAME_MAX_SIZE,
+  quality: number = VIDEO_FRAME_QUALITY
+): string | null {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const scale = Math.min(1, maxSize / Math.max(videoWidth, videoHeight));
+  canvas.width = Math.round(videoWidth * scale);
+  canvas.height = Math.round(videoHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1] || null;
+}
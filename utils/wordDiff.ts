@@ -0,0 +1,64 @@
+/**
+ * Word-level comparison of a target phrase with what the user was transcribed as saying.
+ * Matching ignores case, punctuation and accents, so only the words themselves count.
+ */
+
+export type WordDiffStatus = 'match' | 'missed' | 'extra';
+
+export interface WordDiffToken {
+  word: string; // As written in the target (match / missed) or as heard (extra)
+  status: WordDiffStatus;
+}
+
+export interface WordDiff {
+  tokens: WordDiffToken[];
+  missedWords: string[];
+  extraWords: string[];
+  accuracy: number; // Share of target words that were heard, 0-100
+}
+
+export const splitWords = (text: string) => text.split(/\s+/).filter(word => normalizeWord(word).length > 0);
+
+export const normalizeWord = (word: string) =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Longest-common-subsequence alignment of target and heard words. Target words outside the
+ * common subsequence were missed; heard words outside it were extra.
+ */
+export function diffWords(target: string, heard: string): WordDiff {
+  const targetWords = splitWords(target);
+  const heardWords = splitWords(heard);
+  const a = targetWords.map(normalizeWord);
+  const b = heardWords.map(normalizeWord);
+
+  // lcs[i][j]: common subsequence length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const tokens: WordDiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      tokens.push({ word: targetWords[i++], status: 'match' });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      tokens.push({ word: heardWords[j++], status: 'extra' });
+    } else {
+      tokens.push({ word: targetWords[i++], status: 'missed' });
+    }
+  }
+
+  const matched = lcs[0]?.[0] ?? 0;
+  return {
+    tokens,
+    missedWords: tokens.filter(t => t.status === 'missed').map(t => t.word),
+    extraWords: tokens.filter(t => t.status === 'extra').map(t => t.word),
+    accuracy: a.length ? Math.round((matched / a.length) * 100) : 0,
+  };
+}